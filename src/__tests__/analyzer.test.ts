@@ -0,0 +1,91 @@
+import { parseSource } from '../parser.js';
+import { checkProgram, formatLintDiagnostic } from '../analyzer.js';
+
+function check(source: string) {
+  const { program, errors } = parseSource(source, 'kb.frisco');
+  expect(errors).toEqual([]);
+  return checkProgram(program).map((d) => [d.code, d.message, d.span?.start.line]);
+}
+
+describe('Analyzer', () => {
+  test('reports unknown predicates and arity mismatches', () => {
+    const source = [
+      'Man(SOCRATES).',
+      'Mortal(x) :- Man(x).',
+      '? Mortal(SOCRATES), Mortal(a, b), Immortal(z).',
+      '? length(xs), findall(x, Wize(x), xs).',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      ['arity-mismatch', 'No clauses for Mortal/2; defined: Mortal/1', 3],
+      ['unknown-predicate', 'Unknown predicate Immortal/1', 3],
+      ['arity-mismatch', 'Builtin length called with 1 argument; expected length/2', 4],
+      ['unknown-predicate', 'Unknown predicate Wize/1', 4],
+    ]);
+  });
+
+  test('counts asserted facts as clauses', () => {
+    expect(check('? assertz(Likes(SOCRATES, PLATO)), Likes(p, q).')).toEqual([]);
+  });
+
+  test('checks directives and counts dynamic predicates as defined', () => {
+    const source = [':- dynamic(Visited/1).', ':- initialization(main).', '? Visited(x).'].join('\n');
+    expect(check(source)).toEqual([['unknown-predicate', 'Unknown predicate main/0', 2]]);
+  });
+
+  test('reports singleton variables in rules', () => {
+    const source = [
+      'Parent(TOM, BOB).',
+      'Grandparent(x, z) :- Parent(x, y), Parent(w, z).',
+      'Sized(a, b) :- similar_attr(size, a, b), has_attr(size, _).',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      ['singleton-variable', 'Singleton variable y in Grandparent/2; use _ if it is intentional', 2],
+      ['singleton-variable', 'Singleton variable w in Grandparent/2; use _ if it is intentional', 2],
+    ]);
+  });
+
+  test('reports undeclared concepts, entities and fields', () => {
+    const source = [
+      'concept Man: Animal, description = "rational animal".',
+      'entity SOCRATES: Man, description = "philosopher", teacher = "none".',
+      'entity FIDO: Dog.',
+      '? SOCRATES.teacher =~= "nobody", SOCRATES.age =~= "old", PLATO.description =~= "wise".',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      ['unknown-genus', 'Concept Man has undeclared genus Animal', 1],
+      ['unknown-concept', 'Entity FIDO is a Dog, which is not a declared concept', 3],
+      ['unknown-field', 'SOCRATES has no age', 4],
+      ['unknown-object', 'PLATO is not a declared concept or entity', 4],
+    ]);
+  });
+
+  test('reports genus cycles and knows inherited fields', () => {
+    const source = [
+      'concept A: B.',
+      'concept B: A.',
+      'concept Animal: attributes = ["alive"].',
+      'concept Dog: Animal.',
+      '? Dog.own_attributes = [], Dog.all_attributes =~= "alive".',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      ['genus-cycle', 'Concept A is its own ancestor: A -> B -> A', 1],
+      ['genus-cycle', 'Concept B is its own ancestor: B -> A -> B', 2],
+    ]);
+  });
+
+  test('formats findings with a code frame', () => {
+    const { program } = parseSource('? Immortal(z).', 'kb.frisco');
+
+    expect(formatLintDiagnostic(checkProgram(program)[0])).toBe([
+      'error[unknown-predicate]: Unknown predicate Immortal/1',
+      '  --> kb.frisco:1:3',
+      '  |',
+      '1 | ? Immortal(z).',
+      '  |   ^^^^^^^^^^^',
+    ].join('\n'));
+  });
+});
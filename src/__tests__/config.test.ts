@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findConfigFile, loadConfig, parseCommandLine } from '../config.js';
+
+describe('Configuration', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'frisco-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('separates our flags from the other arguments', () => {
+    const commandLine = parseCommandLine(['--threshold', '0.85', 'debate.frisco', '--judge-backend=ollama', '--format', 'json']);
+    expect(commandLine.rest).toEqual(['debate.frisco']);
+    expect(commandLine.settings).toEqual({ threshold: 0.85, judge: { backend: 'ollama' }, format: 'json' });
+
+    expect(() => parseCommandLine(['--threshold', 'high'])).toThrow('--threshold must be a number, got "high"');
+    expect(() => parseCommandLine(['--max-depth'])).toThrow('--max-depth needs a value');
+    expect(() => parseCommandLine(['--cache', 'forever'])).toThrow('Unknown judge cache mode "forever"');
+  });
+
+  test('defaults apply without a config file', () => {
+    const config = loadConfig(dir, undefined, {});
+    expect(config).toMatchObject({ threshold: 0.7, format: 'text', fuzzy: null, judge: { backend: 'openai' }, search: { index: 'lexical' } });
+    expect(config.maxDepth).toBeUndefined();
+  });
+
+  test('flags override the environment, which overrides the config file', () => {
+    fs.writeFileSync(
+      path.join(dir, 'frisco.config.json'),
+      JSON.stringify({ threshold: 0.8, maxDepth: 200, judge: { backend: 'table', table: 'judgments.json', cache: 'record' } })
+    );
+    const fromFile = loadConfig(dir, undefined, {});
+    expect(fromFile).toMatchObject({ threshold: 0.8, maxDepth: 200, judge: { backend: 'table', cache: 'record' } });
+    expect(fromFile.judge.table).toBe(path.join(dir, 'judgments.json'));
+
+    const fromEnv = loadConfig(dir, undefined, { FRISCO_JUDGE_BACKEND: 'ollama' });
+    expect(fromEnv.judge).toMatchObject({ backend: 'ollama', cache: 'record' });
+
+    const fromFlags = loadConfig(dir, parseCommandLine(['--judge-backend', 'openai', '--threshold', '0.9']), { FRISCO_JUDGE_BACKEND: 'ollama' });
+    expect(fromFlags).toMatchObject({ threshold: 0.9, judge: { backend: 'openai', cache: 'record' } });
+  });
+
+  test('finds the frisco section of package.json in a parent directory', () => {
+    fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'debates', frisco: { threshold: 0.6 } }));
+    const programs = path.join(dir, 'programs');
+    fs.mkdirSync(programs);
+
+    expect(findConfigFile(programs)).toBe(path.join(dir, 'package.json'));
+    expect(loadConfig(programs, undefined, {}).threshold).toBe(0.6);
+  });
+
+  test('reports invalid settings with the file they are in', () => {
+    const file = path.join(dir, 'frisco.config.json');
+    fs.writeFileSync(file, JSON.stringify({ judge: { retries: -1 } }));
+    expect(() => loadConfig(dir, undefined, {})).toThrow(`${file}: judge.retries must be an integer of at least 0, got -1`);
+
+    fs.writeFileSync(file, JSON.stringify({ search: { index: 'lexicon' } }));
+    expect(() => loadConfig(dir, undefined, {})).toThrow(`${file}: Unknown search index "lexicon"`);
+  });
+});
@@ -0,0 +1,188 @@
+// One suite for the engine as every platform runs it: each test runs against
+// the Node host (CLI and REPL) and the browser host (web REPL)
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseSource } from '../parser.js';
+import { Executor, InputHandler, OutputHandler } from '../executor.js';
+import { FriscoRuntimeError } from '../errors.js';
+import { JudgeBackend, TableBackend } from '../judge-backend.js';
+import { nodeFileSystem } from '../node-host.js';
+import { createBrowserExecutor } from '../browser-host.js';
+
+type Host = (output: OutputHandler, input: InputHandler, judge: JudgeBackend) => Executor;
+
+const hosts: [string, Host][] = [
+  ['node', (output, input, judge) => new Executor(0.7, output, input, judge, nodeFileSystem)],
+  ['browser', (output, input, judge) => createBrowserExecutor(output, input, judge)],
+];
+
+const judge = new TableBackend([
+  { operation: 'conceptual_identity', args: ['teacher of Plato', 'mentor'], result: 0.9 },
+  { operation: 'has_attr', args: ['size', 'elephant'], result: true },
+  { operation: 'share_attr', args: ['size', 'elephant', 'mouse'], result: true },
+  { operation: 'differentia', args: ['human', 'animal'], result: 'rationality' },
+]);
+
+describe.each(hosts)('Engine on the %s host', (platform, host) => {
+  const originalLog = console.log;
+  let output: string[];
+  let input: string[];
+  let executor: Executor;
+
+  beforeEach(() => {
+    // The browser host logs each judgment to the console
+    console.log = () => {};
+    output = [];
+    input = [];
+    executor = host((message) => output.push(message), async () => input.shift() ?? '', judge);
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+  });
+
+  async function run(source: string): Promise<string[]> {
+    const { program, errors } = parseSource(source);
+    expect(errors).toEqual([]);
+    await executor.consult(program);
+    return output;
+  }
+
+  test('print continues a line that println ends', async () => {
+    expect(await run('? print("Hello,", WORLD), print("!"), println(" Bye", 42).')).toEqual(['Hello, WORLD! Bye 42', '']);
+    output.length = 0;
+    expect(await run('? print("unfinished").')).toEqual(['unfinished', '']);
+  });
+
+  test('println shows field values and unquoted strings', async () => {
+    const source = `
+      concept Man: description = "rational animal".
+      ? println(Man.description, ["a", B]).
+    `;
+    expect(await run(source)).toEqual(['rational animal [a, B]', '']);
+  });
+
+  test('answers the judging builtins', async () => {
+    const source = `
+      ? has_attr("size", "elephant").
+      ? share_attr("size", "elephant", "mouse").
+      ? differentia("human", "animal", d).
+    `;
+    expect(await run(source)).toEqual(['', 'True', '', 'True', 'Bindings:', '  d = "rationality"', 'True']);
+  });
+
+  test('binds an unbound side of a semantic match by search', async () => {
+    const source = `
+      concept Man.
+      entity SOCRATES: Man, description = "teacher of Plato".
+      entity PLATO: Man, description = "student of Socrates".
+      ? x =~= "mentor".
+    `;
+    expect(await run(source)).toEqual(['Bindings:', '  x = SOCRATES', 'True']);
+  });
+
+  test('directives set the threshold for the rest of the program', async () => {
+    const source = `
+      ? "teacher of Plato" =~= "mentor".
+      :- set_threshold(0.95).
+      ? "teacher of Plato" =~= "mentor".
+    `;
+    expect(await run(source)).toEqual(['', 'True', 'False']);
+    await expect(run(':- set_threshold(2).')).rejects.toThrow('The threshold must be between 0 and 1, got 2');
+    await expect(run(':- set_judge(HUMAN).')).rejects.toThrow('Directive failed: set_judge(HUMAN)');
+  });
+
+  test('runs directives in source order and initialization goals once the program has loaded', async () => {
+    const source = `
+      :- initialization(main).
+      :- println("loading").
+      ? println("query").
+      main() :- println("main").
+    `;
+    expect(await run(source)).toEqual(['loading', 'query', '', 'main']);
+  });
+
+  test('stops recursion deeper than the maximum depth', async () => {
+    const source = `
+      :- set_max_depth(50).
+      count(n) :- m is n + 1, count(m).
+      ? count(0).
+    `;
+    await expect(run(source)).rejects.toThrow('Maximum depth of 50 exceeded calling count/1');
+  });
+
+  test('counts the depth through negation and findall', async () => {
+    executor.setMaxDepth(30);
+    await expect(run('p(x) :- not p(x).\n? p(1).')).rejects.toThrow('Maximum depth of 30 exceeded calling p/1');
+    await expect(run('q(x) :- findall(y, q(y), ys).\n? q(1).')).rejects.toThrow('Maximum depth of 30 exceeded calling q/1');
+  });
+
+  test('prints one JSON object per query in the json format', async () => {
+    executor.setOutputFormat('json');
+    const source = `
+      man(SOCRATES).
+      man(PLATO).
+      ? man(x).
+      ? man(ARISTOTLE).
+    `;
+    expect((await run(source)).map((line) => JSON.parse(line))).toEqual([
+      { query: 'man(x)', answer: 'True', solutions: [{ x: 'SOCRATES' }, { x: 'PLATO' }] },
+      { query: 'man(ARISTOTLE)', answer: 'False', solutions: [] },
+    ]);
+  });
+
+  test('keeps printed text inside the JSON objects in the json format', async () => {
+    executor.setOutputFormat('json');
+    const source = `
+      man(SOCRATES).
+      :- println("loading").
+      ? man(x), print("found", x), println("!").
+    `;
+    expect((await run(source)).map((line) => JSON.parse(line))).toEqual([
+      { directive: 'println("loading")', output: ['loading'] },
+      { query: 'man(x), print("found", x), println("!")', answer: 'True', solutions: [{ x: 'SOCRATES' }], output: ['found SOCRATES!'] },
+    ]);
+  });
+
+  test('readln reads from the host', async () => {
+    input.push('Athens');
+    expect(await run('? readln(city), println("From", city).')).toEqual(['From Athens', 'Bindings:', '  city = "Athens"']);
+  });
+
+  test('readln shows printed text before it waits for input', async () => {
+    executor = host(
+      (message) => output.push(message),
+      async () => {
+        output.push('<input>');
+        return 'Hi bob';
+      },
+      judge
+    );
+    expect(await run('? print("Name: "), readln(n).')).toEqual(['Name: ', '<input>', 'Bindings:', '  n = "Hi bob"']);
+  });
+
+  test('consult/1 loads files only where there is a file system', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'frisco-'));
+    const file = path.join(dir, 'men.frisco');
+    fs.writeFileSync(file, 'man(SOCRATES).\n');
+    try {
+      const consult = run(`? consult("${file}"), man(x).`);
+      if (platform === 'node') {
+        expect(await consult).toEqual(['Bindings:', '  x = SOCRATES', 'True']);
+      } else {
+        await expect(consult).rejects.toThrow(FriscoRuntimeError);
+        await expect(consult).rejects.toThrow('consult/1: no file system is available');
+      }
+      if (platform === 'node') {
+        fs.writeFileSync(path.join(dir, 'main.frisco'), ':- include("men.frisco").\n? man(x).\n');
+        const main = parseSource(fs.readFileSync(path.join(dir, 'main.frisco'), 'utf-8'), path.join(dir, 'main.frisco'));
+        executor.reset();
+        await executor.consult(main.program);
+        expect(output.slice(-3)).toEqual(['Bindings:', '  x = SOCRATES', 'True']);
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+});
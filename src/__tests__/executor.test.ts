@@ -1,6 +1,9 @@
 import { Lexer } from '../lexer.js';
 import { Parser } from '../parser.js';
 import { Executor } from '../executor.js';
+import { FriscoCancelledError, FriscoRuntimeError } from '../errors.js';
+import { TraceAction, formatTraceEvent } from '../tracer.js';
+import { LexicalIndex } from '../semantic-search.js';
 
 describe('Executor', () => {
   test('stores concepts in knowledge base', async () => {
@@ -55,6 +58,392 @@ describe('Executor', () => {
     expect(kb.rules[0].head.name).toBe('mortal');
   });
 
+  test('consult keeps the knowledge base across programs', async () => {
+    const executor = new Executor(0.7, () => {});
+    const consult = (source: string) => executor.consult(new Parser(new Lexer(source).tokenize()).parse());
+
+    await consult('concept Man: description = "rational animal".');
+    await consult('entity SOCRATES: Man, description = "Socrates".');
+    await consult('mortal(x) :- x = SOCRATES.');
+    await consult('mortal(x) :- x = PLATO.');
+    const kb = executor.getKnowledgeBase();
+
+    expect(kb.concepts.has('Man')).toBe(true);
+    expect(kb.entities.has('SOCRATES')).toBe(true);
+    expect(kb.rules).toHaveLength(2);
+  });
+
+  test('consult with redefine replaces clauses of redefined predicates', async () => {
+    const executor = new Executor(0.7, () => {});
+    const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse();
+
+    await executor.consult(parse('mortal(x) :- is_atom(x). wise(x) :- is_atom(x).'));
+    await executor.consult(parse('mortal(x) :- is_bound(x).'), { redefine: true });
+    const rules = executor.getKnowledgeBase().rules;
+
+    expect(rules.map((r) => r.head.name)).toEqual(['wise', 'mortal']);
+  });
+
+  test('abolish and reset remove knowledge', async () => {
+    const executor = new Executor(0.7, () => {});
+    const parse = (source: string) => new Parser(new Lexer(source).tokenize()).parse();
+
+    await executor.consult(parse('concept Man. mortal(x) :- is_atom(x). mortal(x, y) :- is_atom(y). wise(x) :- is_atom(x).'));
+    expect(executor.abolish('mortal', 1)).toBe(1);
+    expect(executor.abolish('mortal')).toBe(1);
+    expect(executor.getKnowledgeBase().rules).toHaveLength(1);
+
+    executor.reset();
+    expect(executor.getKnowledgeBase().concepts.size).toBe(0);
+    expect(executor.getKnowledgeBase().rules).toHaveLength(0);
+  });
+
+  test('evaluates arithmetic with is/2 and comparisons', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      entity SOCRATES: Man, age = "70".
+      ? n is (7 + 3) // 4 mod 3 - 1.5.
+      ? findall(x, member(x, [A, B, C]), xs), length(xs, n), n =:= 3.
+      ? SOCRATES.age >= 65.
+      ? 2 * 3 =\\= 6.
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      'Bindings:', '  n = 0.5', 'True',
+      'Bindings:', '  xs = [A, B, C]', '  n = 3', 'True',
+      '', 'True',
+      'False',
+    ]);
+  });
+
+  test('raises an error when arithmetic is not sufficiently instantiated', async () => {
+    const executor = new Executor(0.7, () => {});
+    const source = '? n is m + 1.';
+
+    await expect(executor.execute(new Parser(new Lexer(source).tokenize()).parse())).rejects.toThrow(
+      'Arithmetic: m is not sufficiently instantiated'
+    );
+  });
+
+  test('locates runtime errors at the failing goal inside a rule body', async () => {
+    const executor = new Executor(0.7, () => {});
+    const source = 'Next(n, m) :-\n  m is n + 1.\n? Next(k, j).';
+
+    const error = await executor
+      .execute(new Parser(new Lexer(source).tokenize(), { text: source }).parse())
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FriscoRuntimeError);
+    expect((error as FriscoRuntimeError).span?.start).toEqual({ line: 2, column: 3 });
+  });
+
+  test('binds similarity scores and honours per-call thresholds', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const matcher = executor.getMatcher();
+    matcher.getConceptualIdentity = async (a, b) => (a === 'dog' && b === 'canine' ? 0.8 : 0.1);
+    matcher.getSimilarityAlongAxis = async () => 0.4;
+    const source = `
+      ? similarity(["cat", "dog"], "canine", s).
+      ? axis_similarity(size, "elephant", "mouse", s).
+      ? "dog" =~= "canine".
+      ? "dog" =~= "canine" @ 0.9.
+      ? t is 0.5, "dog" =~= "canine" @ t.
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      'Bindings:', '  s = 0.8', 'True',
+      'Bindings:', '  s = 0.4', 'True',
+      '', 'True',
+      'False',
+      'Bindings:', '  t = 0.5', 'True',
+    ]);
+  });
+
+  test('asserts and retracts facts while queries run', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      hypothesis(ALL_MEN_ARE_IMMORTAL).
+      refute(h) :- retract(hypothesis(h)), assertz(refuted(h)).
+      conclusion(ARISTOTLE, m) :- m = MORTAL.
+      ? assertz(conclusion(SOCRATES, MORTAL)), asserta(conclusion(PLATO, MORTAL)).
+      ? findall(x, conclusion(x, MORTAL), xs).
+      ? refute(ALL_MEN_ARE_IMMORTAL).
+      ? hypothesis(h).
+      ? refuted(h).
+      ? retractall(conclusion(x, MORTAL)), findall(x, conclusion(x, y), xs).
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      '', 'True',
+      'Bindings:', '  xs = [PLATO, ARISTOTLE, SOCRATES]', 'True',
+      '', 'True',
+      'False',
+      'Bindings:', '  h = ALL_MEN_ARE_IMMORTAL', 'True',
+      'Bindings:', '  xs = [ARISTOTLE]', 'True',
+    ]);
+  });
+
+  test('creates and deletes entities and concepts at runtime', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      ? assert_concept(Sophist, [genus(Person), description("paid teacher of rhetoric"), attributes(["persuasive"])]).
+      ? assert_entity(PROTAGORAS, Sophist, [description("sophist from Abdera"), age("70")]).
+      ? d = PROTAGORAS.description, a = PROTAGORAS.attributes, PROTAGORAS.age > 60.
+      ? retract_entity(PROTAGORAS), retract_concept(Sophist).
+      ? retract_entity(PROTAGORAS).
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      '', 'True',
+      '', 'True',
+      'Bindings:', '  d = "sophist from Abdera"', '  a = ["persuasive"]', 'True',
+      '', 'True',
+      'False',
+    ]);
+    expect(executor.getKnowledgeBase().entities.size).toBe(0);
+  });
+
+  test('explains the rules and judgments behind a solution', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    executor.getMatcher().getBackend().judge = async () => ({ similarity: 0.9 });
+    const source = `
+      concept Man.
+      entity SOCRATES: Man, description = "philosopher".
+      man(SOCRATES).
+      wise(x) :- man(x), SOCRATES.description =~= "lover of wisdom".
+      ? explain(wise(w)).
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      '  wise(SOCRATES)  <- wise(x) :- man(x), SOCRATES.description =~= "lover of wisdom".',
+      '    man(SOCRATES)  <- fact',
+      '    "philosopher" =~= "lover of wisdom"  (threshold 0.7)',
+      '      judge conceptual_identity("philosopher", "lover of wisdom") = 0.90',
+      'Bindings:', '  w = SOCRATES', 'True',
+    ]);
+  });
+
+  test('a cancelled explanation stops with a cancellation error', async () => {
+    const executor = new Executor(0.7, () => {});
+    const program = new Parser(new Lexer('man(SOCRATES).\n? man(x).').tokenize()).parse();
+    await executor.execute({ ...program, statements: program.statements.slice(0, 1) });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(executor.explainQuery(program.statements[1] as any, controller.signal)).rejects.toThrow(FriscoCancelledError);
+  });
+
+  test('traces the call, exit, redo and fail ports', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      man(SOCRATES).
+      man(PLATO).
+      mortal(x) :- man(x).
+      ? trace, mortal(y), y == PLATO, notrace.
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      '  Call: (1) mortal(y)',
+      '  Call: (2) man(_x)',
+      '  Exit: (2) man(SOCRATES)',
+      '  Exit: (1) mortal(SOCRATES)',
+      '  Call: (1) SOCRATES == PLATO',
+      '  Fail: (1) SOCRATES == PLATO',
+      '  Redo: (1) mortal(SOCRATES)',
+      '  Redo: (2) man(SOCRATES)',
+      '  Exit: (2) man(PLATO)',
+      '  Exit: (1) mortal(PLATO)',
+      '  Call: (1) PLATO == PLATO',
+      '  Exit: (1) PLATO == PLATO',
+      '  Call: (1) notrace',
+      'Bindings:', '  y = PLATO', 'True',
+    ]);
+  });
+
+  test('stops at spy points and follows skip and leap', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const actions: TraceAction[] = ['skip', 'creep', 'leap'];
+    executor.getTracer().setHandler(async (event) => {
+      output.push(formatTraceEvent(event));
+      return actions.shift() ?? 'leap';
+    });
+    const source = `
+      man(SOCRATES).
+      mortal(x) :- man(x).
+      debate(x) :- mortal(x), mortal(x).
+      ? spy(mortal/1), debate(SOCRATES).
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      '* Call: (2) mortal(SOCRATES)',
+      '* Exit: (2) mortal(SOCRATES)',
+      '* Call: (2) mortal(SOCRATES)',
+      '* Exit: (2) mortal(SOCRATES)',
+      '',
+      '* Redo: (2) mortal(SOCRATES)',
+      '* Fail: (2) mortal(SOCRATES)',
+      '* Redo: (2) mortal(SOCRATES)',
+      '* Fail: (2) mortal(SOCRATES)',
+      'True',
+    ]);
+  });
+
+  test('aborts a query from the tracer', async () => {
+    const executor = new Executor(0.7, () => {});
+    executor.getTracer().setHandler(async () => 'abort');
+    const source = `
+      man(SOCRATES).
+      ? trace, man(x).
+    `;
+
+    await expect(executor.execute(new Parser(new Lexer(source).tokenize()).parse())).rejects.toThrow('Execution aborted');
+  });
+
+  test('inherits attributes and essentials along the genus chain', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      concept Animal: attributes = ["alive", "moves"], essentials = [alive].
+      concept Bird: Animal, attributes = ["has wings", "flies"].
+      concept Penguin: Bird, attributes = ["swims", -"flies"], essentials = [swims].
+      entity PINGU: Penguin, description = "a penguin".
+      ? a = PINGU.attributes, o = Penguin.own_attributes, e = Penguin.essentials.
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      'Bindings:',
+      '  a = ["alive", "moves", "has wings", "swims"]',
+      '  o = ["swims"]',
+      '  e = ["alive", "swims"]',
+      'True',
+    ]);
+  });
+
+  test('reads fields through bound variables and chained references', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      concept Man: description = "rational animal".
+      entity SOCRATES: Man, description = "philosopher", teacher = "PROTAGORAS".
+      entity PROTAGORAS: Man, description = "sophist".
+      Describe(person, d) :- d = person.description.
+      ? Describe(SOCRATES, d).
+      ? d = SOCRATES.teacher.description.
+      ? who = SOCRATES, t = who.teacher, d = t.description.
+      ? Describe(SOCRATES, "sophist").
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      'Bindings:', '  d = "philosopher"', 'True',
+      'Bindings:', '  d = "sophist"', 'True',
+      'Bindings:', '  who = SOCRATES', '  t = "PROTAGORAS"', '  d = "sophist"', 'True',
+      'False',
+    ]);
+  });
+
+  test('binds an unbound side of a semantic match to matching objects, best first', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const scores: Record<string, number> = {
+      'Athenian philosopher, teacher of Plato': 0.8,
+      'philosopher from Athens': 0.9,
+      'general from Athens': 0.3,
+    };
+    const judged: string[] = [];
+    executor.getMatcher().getConceptualIdentity = async (a, b) => {
+      judged.push(a);
+      return scores[a] ?? scores[b] ?? 0;
+    };
+    const source = `
+      concept Man: description = "rational animal".
+      entity SOCRATES: Man, description = "Athenian philosopher, teacher of Plato".
+      entity PLATO: Man, description = "philosopher from Athens".
+      entity PERICLES: Man, description = "general from Athens".
+      Philosopher(x) :- x =~= "philosopher in Athens".
+      ? findall(x, Philosopher(x), xs).
+      ? "philosopher in Athens" =~= x.description @ 0.85.
+      ? x =~= y.
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+    expect(output).toEqual([
+      'Bindings:', '  xs = [PLATO, SOCRATES]', 'True',
+      'Bindings:', '  x = PLATO', 'True',
+      'False',
+    ]);
+
+    // Only the candidates the index ranks highest are judged
+    judged.length = 0;
+    output.length = 0;
+    executor.setSearchIndex(new LexicalIndex(), 1);
+    await executor.consult(new Parser(new Lexer('? Philosopher(x).').tokenize()).parse());
+    expect(judged).toEqual(['philosopher from Athens']);
+    expect(output).toEqual(['Bindings:', '  x = PLATO', 'True']);
+  });
+
+  test('enumerates concepts, entities and fields', async () => {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg));
+    const source = `
+      concept Animal: attributes = ["alive"].
+      concept Person: Animal, description = "rational animal".
+      concept Philosopher: Person.
+      entity SOCRATES: Philosopher, description = "teacher of Plato", city = "Athens".
+      entity FIDO: Animal.
+      ? findall(c, concept(c), cs), findall(e, is_a(e, Animal), es), findall(a, subconcept(Philosopher, a), as).
+      ? genus(Person, g), entity(FIDO, k).
+      ? findall(n, field(SOCRATES, n, _), ns), field(SOCRATES, "city", city).
+      ? is_a(FIDO, Person).
+    `;
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual([
+      'Bindings:', '  cs = [Animal, Person, Philosopher]', '  es = [SOCRATES, FIDO]', '  as = [Person, Animal]', 'True',
+      'Bindings:', '  g = Animal', '  k = Animal', 'True',
+      'Bindings:',
+      '  ns = ["description", "concept", "city", "genus", "attributes", "own_attributes", "essentials"]',
+      '  city = "Athens"',
+      'True',
+      'False',
+    ]);
+  });
+
+  test('rejects concepts that are their own ancestors', async () => {
+    const executor = new Executor(0.7, () => {});
+    const source = 'concept A: C, description = "a".\nconcept B: A.\nconcept C: B.';
+
+    await expect(executor.execute(new Parser(new Lexer(source).tokenize()).parse())).rejects.toThrow(
+      'Genus cycle: A -> C -> B -> A'
+    );
+    expect(executor.getKnowledgeBase().concepts.size).toBe(0);
+  });
+
   // Skip semantic matching tests in Jest due to ONNX runtime compatibility
   test.skip('evaluates query with semantic matching', async () => {
     const source = `
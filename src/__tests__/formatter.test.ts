@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import { formatSource } from '../formatter.js';
+import { parseSource } from '../parser.js';
+import { FriscoSyntaxError } from '../errors.js';
+
+describe('formatSource', () => {
+  test('lays out statements canonically and keeps comments and blank lines', () => {
+    const source = [
+      '# Ontology',
+      'concept Man:description="rational animal",attributes=[ "finite","mortal" ].   # a trailing note',
+      '',
+      '',
+      'entity SOCRATES : Man,',
+      '   description = "philosopher from Athens",',
+      '   # who taught him',
+      '   teacher = "PROTAGORAS".',
+      'concept Sophist: Man, description = "paid teacher of rhetoric and argument", attributes = ["persuasive", "itinerant", "paid"].',
+      'Mortal(x):-x.description=~="lives and dies"@0.8;x=SOCRATES.',
+      'Teaches(x, y) :- entity(x, Man), entity(y, Man), y.teacher = x, println("found a teacher").',
+      '?Mortal(SOCRATES).',
+      '# end',
+    ].join('\n');
+
+    expect(formatSource(source)).toBe([
+      '# Ontology',
+      'concept Man: description = "rational animal", attributes = ["finite", "mortal"]. # a trailing note',
+      '',
+      '# who taught him',
+      'entity SOCRATES: Man,',
+      '  description = "philosopher from Athens",',
+      '  teacher = "PROTAGORAS".',
+      'concept Sophist: Man,',
+      '  description = "paid teacher of rhetoric and argument",',
+      '  attributes = ["persuasive", "itinerant", "paid"].',
+      'Mortal(x) :- x.description =~= "lives and dies" @ 0.8 ; x = SOCRATES.',
+      'Teaches(x, y) :-',
+      '    entity(x, Man),',
+      '    entity(y, Man),',
+      '    y.teacher = x,',
+      '    println("found a teacher").',
+      '? Mortal(SOCRATES).',
+      '# end',
+      '',
+    ].join('\n'));
+  });
+
+  test('splits lists that do not fit on a line', () => {
+    const attributes = ['finite lifespan', 'biological organism with limited duration', 'vulnerable to physical cessation'];
+    const source = `concept Man: attributes = [${attributes.map((a) => `"${a}"`).join(', ')}].`;
+
+    expect(formatSource(source)).toBe([
+      'concept Man:',
+      '  attributes = [',
+      ...attributes.map((a, i) => `    "${a}"${i < attributes.length - 1 ? ',' : ''}`),
+      '  ].',
+      '',
+    ].join('\n'));
+  });
+
+  test('refuses source with syntax errors', () => {
+    expect(() => formatSource('concept Man: description = .')).toThrow(FriscoSyntaxError);
+  });
+
+  test.each(['tour-examples.frisco', 'test_concepts.frisco', 'ingredient_substitution.frisco'])(
+    'keeps the program of %s and is idempotent',
+    (file) => {
+      const source = fs.readFileSync(file, 'utf-8');
+      const formatted = formatSource(source);
+
+      expect(parseSource(formatted).program).toEqual(parseSource(source).program);
+      expect(formatSource(formatted)).toBe(formatted);
+    }
+  );
+});
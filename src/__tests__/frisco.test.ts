@@ -0,0 +1,80 @@
+import { Frisco } from '../frisco.js';
+import { FriscoRuntimeError, FriscoSyntaxError } from '../errors.js';
+import { TableBackend } from '../judge-backend.js';
+
+async function collect<T>(solutions: AsyncIterable<T>): Promise<T[]> {
+  const all: T[] = [];
+  for await (const solution of solutions) all.push(solution);
+  return all;
+}
+
+describe('Frisco facade', () => {
+  const program = `
+    concept Man: description = "rational animal".
+    entity SOCRATES: Man, description = "teacher of Plato".
+    entity PLATO: Man, description = "student of Socrates".
+    man(SOCRATES).
+    man(PLATO).
+    mortal(x) :- man(x).
+  `;
+
+  test('queries return solutions as plain bindings', async () => {
+    const frisco = new Frisco();
+    await frisco.consult(program);
+
+    expect(await collect(frisco.query('mortal(x)'))).toEqual([{ x: 'SOCRATES' }, { x: 'PLATO' }]);
+    expect(await collect(frisco.query('? x = [1, "two", f(y)].'))).toEqual([
+      { x: [1, 'two', { functor: 'f', args: [null] }] },
+    ]);
+    expect(await collect(frisco.query('mortal(ARISTOTLE)'))).toEqual([]);
+  });
+
+  test('solutions are found as they are asked for', async () => {
+    const frisco = new Frisco();
+    await frisco.consult(program);
+
+    const solutions = frisco.query('mortal(x)');
+    expect((await solutions.next()).value).toEqual({ x: 'SOCRATES' });
+    await solutions.return(undefined);
+  });
+
+  test('uses the injected judge for semantic matches', async () => {
+    const judge = new TableBackend([{ operation: 'conceptual_identity', args: ['teacher of Plato', 'mentor of Plato'], result: 0.9 }]);
+    const frisco = new Frisco({ judge });
+    await frisco.consult(program);
+
+    expect(await collect(frisco.query('man(x), x.description =~= "mentor of Plato"'))).toEqual([{ x: 'SOCRATES' }]);
+  });
+
+  test('assert adds clauses after the existing ones', async () => {
+    const frisco = new Frisco();
+    await frisco.consult(program);
+    await frisco.assert('man(XENOPHON)');
+
+    expect(await collect(frisco.query('mortal(x)'))).toEqual([{ x: 'SOCRATES' }, { x: 'PLATO' }, { x: 'XENOPHON' }]);
+    await expect(frisco.assert('? man(x).')).rejects.toThrow(FriscoSyntaxError);
+  });
+
+  test('the knowledge base is plain JSON', async () => {
+    const frisco = new Frisco();
+    await frisco.consult(`${program}\ngreeting = "hello".`);
+    const kb = frisco.getKnowledgeBase();
+
+    expect(JSON.parse(JSON.stringify(kb))).toEqual(kb);
+    expect(kb.concepts[0]).toMatchObject({ name: 'Man', description: 'rational animal', genus: null });
+    expect(kb.entities[1]).toEqual({ name: 'PLATO', concept: 'Man', description: 'student of Socrates', properties: {} });
+    expect(kb.rules).toEqual(['man(SOCRATES).', 'man(PLATO).', 'mortal(x) :- man(x).']);
+    expect(kb.bindings).toEqual({ greeting: 'hello' });
+  });
+
+  test('errors are thrown, and output goes to the given handler', async () => {
+    const output: string[] = [];
+    const frisco = new Frisco({ output: (message) => output.push(message) });
+
+    await expect(frisco.consult('man(x', { file: 'broken.frisco' })).rejects.toThrow(FriscoSyntaxError);
+    await expect(collect(frisco.query('x is y + 1'))).rejects.toThrow(FriscoRuntimeError);
+
+    expect(await collect(frisco.query('println(HELLO)'))).toEqual([{}]);
+    expect(output).toEqual(['HELLO']);
+  });
+});
@@ -0,0 +1,64 @@
+import { parseSource } from '../parser.js';
+import { Executor } from '../executor.js';
+import { TableBackend } from '../judge-backend.js';
+import { TNorm, conjoin, disjoin, parseTNorm } from '../fuzzy.js';
+
+const judge = new TableBackend([
+  { operation: 'conceptual_identity', args: ['dog', 'canine'], result: 0.9 },
+  { operation: 'conceptual_identity', args: ['dog', 'wolf'], result: 0.6 },
+]);
+
+async function run(tnorm: TNorm | null, source: string): Promise<string[]> {
+  const output: string[] = [];
+  const executor = new Executor(0.7, (message) => output.push(message), undefined, judge);
+  executor.setFuzzyLogic(tnorm);
+  await executor.execute(parseSource(source).program);
+  return output;
+}
+
+describe('Fuzzy evaluation', () => {
+  test('t-norms and their t-conorms', () => {
+    expect(conjoin('min', 0.9, 0.6)).toBe(0.6);
+    expect(conjoin('product', 0.5, 0.6)).toBeCloseTo(0.3);
+    expect(conjoin('lukasiewicz', 0.9, 0.6)).toBeCloseTo(0.5);
+    expect(conjoin('lukasiewicz', 0.3, 0.6)).toBe(0);
+    expect(disjoin('min', 0.9, 0.6)).toBe(0.9);
+    expect(disjoin('product', 0.9, 0.6)).toBeCloseTo(0.96);
+    expect(disjoin('lukasiewicz', 0.9, 0.6)).toBe(1);
+    expect(() => parseTNorm('max')).toThrow('Unknown t-norm "max"');
+  });
+
+  test('reports the confidence of an answer', async () => {
+    expect(await run('min', '? "dog" =~= "canine".')).toEqual(['', 'True (0.90)']);
+  });
+
+  test('a score below the threshold still holds to its degree', async () => {
+    expect(await run(null, '? "dog" =~= "wolf".')).toEqual(['False']);
+    expect(await run('min', '? "dog" =~= "wolf".')).toEqual(['False (0.60)']);
+  });
+
+  test('combines conjunctions with the t-norm', async () => {
+    const source = '? "dog" =~= "canine", "dog" =~= "wolf".';
+    expect(await run('min', source)).toEqual(['False (0.60)']);
+    expect(await run('product', source)).toEqual(['False (0.54)']);
+    expect(await run('lukasiewicz', source)).toEqual(['False (0.50)']);
+  });
+
+  test('combines the solutions of a disjunction with the t-conorm', async () => {
+    expect(await run('product', '? "dog" =~= "canine" ; "dog" =~= "wolf".')).toEqual(['', 'True (0.96)']);
+  });
+
+  test('negation takes the complement', async () => {
+    expect(await run('min', '? not "dog" =~= "wolf".')).toEqual(['False (0.40)']);
+    expect(await run('min', '? not "dog" =~= "cat".')).toEqual(['', 'True (1.00)']);
+  });
+
+  test('carries confidence through rules and shows it with bindings', async () => {
+    const source = `
+      canine_like(x) :- x =~= "canine".
+      ? canine_like(x), x = "dog".
+      ? x = "dog", canine_like(x).
+    `;
+    expect(await run('min', source)).toEqual(['False', 'Bindings (0.90):', '  x = "dog"', 'True (0.90)']);
+  });
+});
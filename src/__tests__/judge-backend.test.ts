@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Lexer } from '../lexer.js';
+import { Parser } from '../parser.js';
+import { Executor } from '../executor.js';
+import { SemanticMatcher } from '../semantic-matcher.js';
+import { HumanBackend, JudgeBackend, JudgeRequest, TableBackend } from '../judge-backend.js';
+import { EmbeddingBackend } from '../embedding-backend.js';
+import { CachingBackend, defaultCacheFile } from '../judgment-cache.js';
+import { Judgment } from '../proof.js';
+import { FriscoCancelledError, FriscoJudgeError } from '../errors.js';
+import { createJudgeBackend, judgeConfigFromEnv } from '../judge-config.js';
+
+describe('Judge backends', () => {
+  const table = new TableBackend([
+    { operation: 'conceptual_identity', args: ['dog', 'canine'], result: 0.9 },
+    { operation: 'has_attr', args: ['size', 'elephant'], result: true },
+    { operation: 'differentia', args: ['human', 'animal'], result: 'rationality' },
+  ]);
+
+  test('table backend answers known judgments', async () => {
+    const matcher = new SemanticMatcher(0.7, table);
+
+    expect(await matcher.getConceptualIdentity('Canine', 'dog')).toBe(0.9);
+    expect(await matcher.hasAttribute('size', 'elephant')).toBe(true);
+    expect(await matcher.getDifferentia('human', 'animal')).toBe('rationality');
+  });
+
+  test('table backend falls back to exact comparison', async () => {
+    const matcher = new SemanticMatcher(0.7, table);
+
+    expect(await matcher.getConceptualIdentity('cat', 'cat')).toBe(1);
+    expect(await matcher.getConceptualIdentity('cat', 'dog')).toBe(0);
+    expect(await matcher.hasAttribute('color', 'justice')).toBe(false);
+    expect(await matcher.getDifferentia('square', 'rectangle')).toBe('');
+  });
+
+  test('executor judges =~= with the configured backend', async () => {
+    const source = `
+      ? "dog" =~= "canine".
+      ? "dog" =~= "mathematics".
+    `;
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg), undefined, table);
+
+    await executor.execute(new Parser(new Lexer(source).tokenize()).parse());
+
+    expect(output).toEqual(['', 'True', 'False']);
+  });
+
+  test('embedding backend scores by cosine similarity', async () => {
+    const vectors: Record<string, number[]> = {
+      dog: [1, 0],
+      canine: [0.9, 0.1],
+      mathematics: [0, 1],
+    };
+    const backend = new EmbeddingBackend({ embed: async (texts) => texts.map((text) => vectors[text]) });
+    const matcher = new SemanticMatcher(0.7, backend);
+
+    expect(await matcher.match('dog', 'canine')).toBe(true);
+    expect(await matcher.match('dog', 'mathematics')).toBe(false);
+  });
+
+  test('reads the backend from environment variables', () => {
+    const config = judgeConfigFromEnv({ FRISCO_JUDGE_BACKEND: 'table', FRISCO_JUDGE_TABLE: 'judgments.json' });
+    expect(config.backend).toBe('table');
+    expect(config.table).toBe('judgments.json');
+
+    expect(() => judgeConfigFromEnv({ FRISCO_JUDGE_BACKEND: 'oracle' })).toThrow('Unknown judge backend');
+  });
+
+  test('reads the transport and failure policy from environment variables', () => {
+    const config = judgeConfigFromEnv({ FRISCO_JUDGE_TIMEOUT: '5000', FRISCO_JUDGE_RETRIES: '0', FRISCO_JUDGE_ON_FAILURE: 'unknown' });
+    expect(config).toMatchObject({ timeoutMs: 5000, retries: 0, concurrency: undefined, onFailure: 'unknown' });
+
+    expect(() => judgeConfigFromEnv({ FRISCO_JUDGE_CONCURRENCY: '0' })).toThrow('FRISCO_JUDGE_CONCURRENCY must be an integer of at least 1');
+    expect(() => judgeConfigFromEnv({ FRISCO_JUDGE_ON_FAILURE: 'ignore' })).toThrow('Unknown judge failure policy');
+  });
+
+  test('human backend asks through the input handler and remembers answers', async () => {
+    const prompts: string[] = [];
+    const answers = ['0.9', 'maybe', 'no', 'rationality', ''];
+    const matcher = new SemanticMatcher(0.7, new HumanBackend(async (prompt) => {
+      prompts.push(prompt ?? '');
+      return answers.shift()!;
+    }));
+
+    expect(await matcher.match('dog', 'canine')).toBe(true);
+    expect(prompts[0]).toContain('Judge conceptual_identity("dog", "canine")');
+    expect(prompts[0]).toContain('You are judging conceptual identity.');
+    expect(prompts[0]).not.toContain('Examples:');
+    expect(prompts[0]).toContain('Answer with a score from 0 to 1');
+
+    // Not a yes/no answer: asked again
+    expect(await matcher.hasAttribute('lifespan', 'corporation')).toBe(false);
+    expect(prompts[2]).toBe('Not understood: "maybe". Answer yes or no, or nothing to abstain:');
+
+    expect(await matcher.getDifferentia('human', 'animal')).toBe('rationality');
+    // Abstaining is a judge failure
+    await expect(matcher.shareAttribute('size', 'elephant', 'mouse')).rejects.toThrow(
+      'The human judge abstained on share_attr("size", "elephant", "mouse")'
+    );
+
+    expect(await matcher.getConceptualIdentity('Canine', 'dog')).toBe(0.9);
+    expect(prompts).toHaveLength(5);
+  });
+
+  test('a cancelled query stops waiting for the human judge', async () => {
+    const controller = new AbortController();
+    const matcher = new SemanticMatcher(0.7, new HumanBackend(() => {
+      controller.abort();
+      return new Promise<string>(() => {});
+    }));
+
+    await expect(matcher.hasAttribute('color', 'justice', controller.signal)).rejects.toThrow(FriscoCancelledError);
+  });
+
+  test.each([
+    ['error', 'throws'],
+    ['fail', false],
+    ['unknown', 'unknown'],
+  ] as const)('an abstention under the %s policy', async (policy, outcome) => {
+    const matcher = new SemanticMatcher(0.7, new HumanBackend(async () => ''));
+    matcher.failurePolicy = policy;
+    const judgments: Judgment[] = [];
+    matcher.onJudgment = (judgment) => judgments.push(judgment);
+
+    const answer = matcher.hasAttribute('color', 'justice');
+    if (outcome === 'throws') {
+      await expect(answer).rejects.toThrow(FriscoJudgeError);
+    } else {
+      expect(await answer).toBe(false);
+      expect(judgments.map((judgment) => judgment.unknown ?? false)).toEqual([outcome === 'unknown']);
+    }
+  });
+
+  test('the human backend needs an input handler', () => {
+    const config = judgeConfigFromEnv({ FRISCO_JUDGE_BACKEND: 'human' });
+    expect(() => createJudgeBackend(config)).toThrow('The human judge needs a way to ask questions');
+    expect(createJudgeBackend(config, undefined, async () => 'yes')).toBeInstanceOf(CachingBackend);
+  });
+});
+
+describe('Judgment cache', () => {
+  class CountingBackend implements JudgeBackend {
+    calls = 0;
+    async judge(_request: JudgeRequest) {
+      this.calls++;
+      return { similarity: 0.9 };
+    }
+  }
+
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'frisco-cache-'));
+    file = path.join(dir, 'program.judgments.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('asks the judge once per question', async () => {
+    const backend = new CountingBackend();
+    const matcher = new SemanticMatcher(0.7, new CachingBackend(backend));
+
+    await matcher.getConceptualIdentity('dog', 'canine');
+    await matcher.getConceptualIdentity('dog', 'canine');
+    await matcher.getConceptualIdentity('dog', 'wolf');
+
+    expect(backend.calls).toBe(2);
+  });
+
+  test('replays recorded judgments without the judge', async () => {
+    const recorder = new SemanticMatcher(0.7, new CachingBackend(new CountingBackend(), 'record', file));
+    await recorder.getConceptualIdentity('dog', 'canine');
+
+    const backend = new CountingBackend();
+    const replayer = new SemanticMatcher(0.7, new CachingBackend(backend, 'replay', file));
+
+    expect(await replayer.getConceptualIdentity('dog', 'canine')).toBe(0.9);
+    expect(backend.calls).toBe(0);
+    await expect(replayer.getConceptualIdentity('dog', 'wolf')).rejects.toThrow(
+      'Judgment cache miss in replay mode: conceptual_identity("dog", "wolf")'
+    );
+  });
+
+  test('refresh asks the judge again and rewrites the file', async () => {
+    const recorder = new SemanticMatcher(0.7, new CachingBackend(new CountingBackend(), 'record', file));
+    await recorder.getConceptualIdentity('dog', 'canine');
+    await recorder.getConceptualIdentity('dog', 'wolf');
+
+    const backend = new CountingBackend();
+    const refresher = new SemanticMatcher(0.7, new CachingBackend(backend, 'refresh', file));
+    await refresher.getConceptualIdentity('dog', 'canine');
+
+    expect(backend.calls).toBe(1);
+    expect(fs.readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(1);
+  });
+
+  test('stores the cache next to the program', () => {
+    expect(defaultCacheFile('/debates/free-will.frisco')).toBe('/debates/free-will.judgments.jsonl');
+  });
+});
@@ -0,0 +1,184 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Lexer } from '../lexer.js';
+import { Parser } from '../parser.js';
+import { Executor } from '../executor.js';
+import { Frisco } from '../frisco.js';
+import { SemanticMatcher } from '../semantic-matcher.js';
+import { Judgment, formatJudgment } from '../proof.js';
+import { JudgeBackend, JudgeFailurePolicy, JudgeRequest, OpenAICompatibleBackend } from '../judge-backend.js';
+import { JudgeTransport } from '../judge-transport.js';
+import { FriscoCancelledError, FriscoJudgeError } from '../errors.js';
+
+// What the test server answers, after `delayMs`
+type Reply = { status: number; body?: unknown };
+
+describe('Judge transport', () => {
+  let server: http.Server;
+  let url: string;
+  let requests = 0;
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let delayMs = 0;
+  let respond: (request: number) => Reply;
+
+  beforeEach(async () => {
+    respond = () => ({ status: 200, body: {} });
+    requests = 0;
+    inFlight = 0;
+    maxInFlight = 0;
+    delayMs = 0;
+    server = http.createServer((req, res) => {
+      const request = ++requests;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      req.resume();
+      const timer = setTimeout(() => {
+        inFlight--;
+        const reply = respond(request);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json', Connection: 'close' });
+        res.end(JSON.stringify(reply.body ?? {}));
+      }, delayMs);
+      res.on('close', () => clearTimeout(timer));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('retries server errors with backoff', async () => {
+    respond = (request) => (request < 3 ? { status: 503 } : { status: 200, body: { ok: true } });
+    const transport = new JudgeTransport({ retries: 2, retryDelayMs: 1 });
+
+    expect(await transport.postJSON(url, {})).toEqual({ ok: true });
+    expect(requests).toBe(3);
+  });
+
+  test('gives up with a judge error once the retries are spent', async () => {
+    respond = () => ({ status: 500 });
+    const transport = new JudgeTransport({ retries: 1, retryDelayMs: 1 });
+
+    await expect(transport.postJSON(url, {})).rejects.toThrow(FriscoJudgeError);
+    expect(requests).toBe(2);
+  });
+
+  test('does not retry client errors', async () => {
+    respond = () => ({ status: 400 });
+    const transport = new JudgeTransport({ retries: 2, retryDelayMs: 1 });
+
+    await expect(transport.postJSON(url, {})).rejects.toThrow('400');
+    expect(requests).toBe(1);
+  });
+
+  test('times out slow requests', async () => {
+    delayMs = 500;
+    const transport = new JudgeTransport({ timeoutMs: 20, retries: 0 });
+
+    await expect(transport.postJSON(url, {})).rejects.toThrow('timed out after 20 ms');
+  });
+
+  test('caps the requests in flight', async () => {
+    delayMs = 20;
+    const transport = new JudgeTransport({ concurrency: 2 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => transport.postJSON(url, {})));
+    expect(requests).toBe(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('aborting cancels the request without retrying', async () => {
+    delayMs = 500;
+    const transport = new JudgeTransport({ retries: 2 });
+    const controller = new AbortController();
+
+    const pending = transport.postJSON(url, {}, {}, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+    await expect(pending).rejects.toThrow(FriscoCancelledError);
+    expect(requests).toBe(1);
+  });
+
+  test('a dead server is a judge error, not a score of 0', async () => {
+    respond = () => ({ status: 503 });
+    const backend = new OpenAICompatibleBackend(url, { transport: { retries: 0 } });
+    const executor = new Executor(0.7, () => {}, undefined, backend);
+
+    await expect(executor.execute(parse('? "dog" =~= "canine".'))).rejects.toThrow(FriscoJudgeError);
+  });
+});
+
+describe('Judge failure policy', () => {
+  const failing: JudgeBackend = {
+    async judge(_request: JudgeRequest) {
+      throw new FriscoJudgeError('Judge request failed: 503 Service Unavailable');
+    },
+  };
+
+  async function run(policy: JudgeFailurePolicy, source: string): Promise<string[]> {
+    const output: string[] = [];
+    const executor = new Executor(0.7, (msg) => output.push(msg), undefined, failing);
+    executor.setJudgeFailurePolicy(policy);
+    await executor.execute(parse(source));
+    return output;
+  }
+
+  test('error stops the query', async () => {
+    await expect(run('error', '? "dog" =~= "canine".')).rejects.toThrow('503 Service Unavailable');
+  });
+
+  test('fail treats the judgment as no', async () => {
+    expect(await run('fail', '? "dog" =~= "canine".\n? not "dog" =~= "canine".')).toEqual(['False', '', 'True']);
+  });
+
+  test('unknown reports the query as unknown, also under negation', async () => {
+    expect(await run('unknown', '? "dog" =~= "canine".\n? not "dog" =~= "canine".')).toEqual(['Unknown', 'Unknown']);
+  });
+
+  test('unknown judgments are marked as such', async () => {
+    const matcher = new SemanticMatcher(0.7, failing);
+    matcher.failurePolicy = 'unknown';
+    const judgments: Judgment[] = [];
+    matcher.onJudgment = (judgment) => judgments.push(judgment);
+
+    expect(await matcher.hasAttribute('color', 'justice')).toBe(false);
+    expect(judgments.map(formatJudgment)).toEqual(['judge has_attr("color", "justice") = unknown (the judge failed)']);
+  });
+
+  test('a cancelled query stops with a cancellation error', async () => {
+    const frisco = new Frisco({ judge: failing });
+    await frisco.consult('p(1).\np(2).');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(frisco.query('p(x)', { signal: controller.signal }).next()).rejects.toThrow(FriscoCancelledError);
+  });
+
+  test('interleaved queries keep their own signals', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const recording: JudgeBackend = {
+      async judge(request: JudgeRequest) {
+        signals.push(request.signal);
+        return { similarity: 1 };
+      },
+    };
+    const frisco = new Frisco({ judge: recording });
+    await frisco.consult('p(1).\np(2).');
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = frisco.query('p(x), "dog" =~= "canine"', { signal: a.signal });
+    const second = frisco.query('p(x), "dog" =~= "canine"', { signal: b.signal });
+    await first.next();
+    await second.next();
+    await second.return(undefined);
+    await first.next();
+    expect(signals).toEqual([a.signal, b.signal, a.signal]);
+  });
+});
+
+function parse(source: string) {
+  return new Parser(new Lexer(source).tokenize()).parse();
+}
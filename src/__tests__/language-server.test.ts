@@ -0,0 +1,115 @@
+import { PassThrough } from 'stream';
+import { LanguageServer, Message, startLanguageServer } from '../language-server.js';
+
+const URI = 'file:///ontology.frisco';
+const SOURCE = [
+  'concept Animal: attributes = ["alive"].',
+  'concept Man: Animal, description = "rational animal", essentials = [reason].',
+  'entity SOCRATES: Man, description = "philosopher".',
+  'Mortal(x) :- entity(x, Man).',
+  '? Mortal(SOCRATES), Immortal(SOCRATES).',
+].join('\n');
+
+function open(source = SOURCE): { server: LanguageServer; sent: Message[] } {
+  const sent: Message[] = [];
+  const server = new LanguageServer((message) => sent.push(message));
+  server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri: URI, text: source } } });
+  return { server, sent };
+}
+
+function request(method: string, params: object): unknown {
+  const { server, sent } = open();
+  server.handle({ jsonrpc: '2.0', id: 1, method, params: { textDocument: { uri: URI }, ...params } });
+  return sent.find((message) => message.id === 1)?.result;
+}
+
+describe('LanguageServer', () => {
+  test('publishes syntax errors and analyzer findings', () => {
+    const { sent } = open(`${SOURCE}\nconcept Broken: description = .`);
+    const diagnostics = (sent[0].params as { diagnostics: { range: unknown; severity: number; message: string }[] }).diagnostics;
+
+    expect(sent[0].method).toBe('textDocument/publishDiagnostics');
+    expect(diagnostics.map((d) => [d.severity, d.message])).toEqual([
+      [1, 'Expected STRING but got DOT'],
+      [1, 'Unknown predicate Immortal/1'],
+    ]);
+    expect(diagnostics[1].range).toEqual({ start: { line: 4, character: 20 }, end: { line: 4, character: 38 } });
+  });
+
+  test('goes to the declaration of concepts, entities and predicates', () => {
+    expect(request('textDocument/definition', { position: { line: 4, character: 12 } })).toEqual([
+      { uri: URI, range: { start: { line: 2, character: 0 }, end: { line: 2, character: 50 } } },
+    ]);
+    expect(request('textDocument/definition', { position: { line: 4, character: 3 } })).toEqual([
+      { uri: URI, range: { start: { line: 3, character: 0 }, end: { line: 3, character: 9 } } },
+    ]);
+  });
+
+  test('describes a concept with its inherited traits on hover', () => {
+    const hover = request('textDocument/hover', { position: { line: 3, character: 25 } }) as { contents: { value: string } };
+
+    expect(hover.contents.value).toBe('**concept Man**: Animal\n\nrational animal\n\nattributes: alive\n\nessentials: reason');
+  });
+
+  test('completes names and the fields of an object', () => {
+    const names = (request('textDocument/completion', { position: { line: 4, character: 2 } }) as { label: string }[]).map((item) => item.label);
+    expect(names).toEqual(expect.arrayContaining(['findall', 'Mortal', 'Man', 'SOCRATES', 'concept']));
+
+    const { server, sent } = open(`${SOURCE}\n? d = SOCRATES.`);
+    server.handle({ jsonrpc: '2.0', id: 2, method: 'textDocument/completion', params: { textDocument: { uri: URI }, position: { line: 5, character: 15 } } });
+    const fields = (sent.find((message) => message.id === 2)?.result as { label: string }[]).map((item) => item.label);
+    expect(fields).toEqual(expect.arrayContaining(['description', 'attributes', 'essentials', 'concept']));
+  });
+
+  test('lists document symbols', () => {
+    const symbols = request('textDocument/documentSymbol', {}) as { name: string; kind: number }[];
+
+    expect(symbols.map((symbol) => [symbol.name, symbol.kind])).toEqual([
+      ['Animal', 5],
+      ['Man', 5],
+      ['SOCRATES', 19],
+      ['Mortal/1', 12],
+    ]);
+  });
+
+  test('encodes semantic tokens relative to the previous token', () => {
+    const { data } = request('textDocument/semanticTokens/full', {}) as { data: number[] };
+
+    // concept (keyword), Animal (class), attributes (keyword), = (operator), "alive" (string)
+    expect(data.slice(0, 25)).toEqual([0, 0, 7, 0, 0, 0, 8, 6, 7, 0, 0, 8, 10, 0, 0, 0, 11, 1, 1, 0, 0, 3, 7, 2, 0]);
+  });
+
+  test('reads and writes framed messages over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startLanguageServer(input, output);
+
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'initialize', params: {} });
+    input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    const reply = String(await new Promise((resolve) => output.once('data', resolve)));
+
+    const response = JSON.parse(reply.slice(reply.indexOf('\r\n\r\n') + 4));
+    expect(response.id).toBe(7);
+    expect(response.result.capabilities.definitionProvider).toBe(true);
+  });
+
+  test('answers a message that is not JSON with a parse error and keeps serving', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startLanguageServer(input, output);
+    const replies: unknown[] = [];
+    output.on('data', (chunk) => {
+      const text = String(chunk);
+      replies.push(JSON.parse(text.slice(text.indexOf('\r\n\r\n') + 4)));
+    });
+
+    const bodies = ['{"jsonrpc": "2.0", "id": 1,', JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'shutdown' })];
+    for (const body of bodies) input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(replies).toEqual([
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: expect.stringContaining('Parse error') } },
+      { jsonrpc: '2.0', id: 2, result: null },
+    ]);
+  });
+});
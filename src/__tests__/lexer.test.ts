@@ -82,4 +82,35 @@ describe('Lexer', () => {
     expect(tokens[3].type).toBe(TokenType.STRING);
     expect(tokens[3].value).toBe('second');
   });
+
+  test('tokenizes numbers and arithmetic operators', () => {
+    const source = 'n is 3.5 * x // 2 mod 7, n =< 10, n =\\= 4, n >= 0.';
+    const lexer = new Lexer(source);
+    const types = lexer.tokenize().map((t) => t.type);
+
+    expect(types).toEqual([
+      TokenType.IDENTIFIER, TokenType.IS, TokenType.NUMBER, TokenType.STAR, TokenType.IDENTIFIER,
+      TokenType.INT_DIVIDE, TokenType.NUMBER, TokenType.MOD, TokenType.NUMBER, TokenType.COMMA,
+      TokenType.IDENTIFIER, TokenType.LESS_EQUAL, TokenType.NUMBER, TokenType.COMMA,
+      TokenType.IDENTIFIER, TokenType.ARITH_NOT_EQUAL, TokenType.NUMBER, TokenType.COMMA,
+      TokenType.IDENTIFIER, TokenType.GREATER_EQUAL, TokenType.NUMBER, TokenType.DOT, TokenType.EOF,
+    ]);
+  });
+
+  test('treats a dot after a number as a terminator unless a digit follows', () => {
+    const tokens = new Lexer('x = 3. y = 2.5').tokenize();
+
+    expect(tokens[2]).toMatchObject({ type: TokenType.NUMBER, value: '3' });
+    expect(tokens[3].type).toBe(TokenType.DOT);
+    expect(tokens[6]).toMatchObject({ type: TokenType.NUMBER, value: '2.5' });
+  });
+
+  test('skips unexpected characters when tokenizing with recovery', () => {
+    const { tokens, errors } = new Lexer('? Man($x) & .').tokenizeWithRecovery();
+
+    expect(errors.map((error) => error.reason)).toEqual(["Unexpected character '$'", "Unexpected character '&'"]);
+    expect(tokens.map((t) => t.type)).toEqual([
+      TokenType.QUERY, TokenType.IDENTIFIER, TokenType.LPAREN, TokenType.IDENTIFIER, TokenType.RPAREN, TokenType.DOT, TokenType.EOF,
+    ]);
+  });
 });
@@ -1,5 +1,6 @@
 import { Lexer } from '../lexer.js';
-import { Parser } from '../parser.js';
+import { Parser, parseSource } from '../parser.js';
+import { FriscoSyntaxError, formatDiagnostic } from '../errors.js';
 
 describe('Parser', () => {
   test('parses concept declaration', () => {
@@ -58,7 +59,7 @@ describe('Parser', () => {
     expect(rule.head.parameters[0]).toEqual({ type: 'Variable', name: 'target', anonymous: undefined });
     expect(rule.body).toHaveLength(1);
     expect(rule.body[0].type).toBe('SemanticMatch');
-    expect(rule.body[0].left).toEqual({ type: 'FieldAccess', object: 'target', field: 'description' });
+    expect(rule.body[0].left).toEqual({ type: 'FieldAccess', object: { type: 'Variable', name: 'target' }, field: 'description' });
     expect(rule.body[0].right).toEqual({ type: 'StringLiteral', value: 'philosopher' });
   });
 
@@ -79,7 +80,7 @@ describe('Parser', () => {
     expect(rule.head.parameters[0]).toEqual({ type: 'Atom', value: 'X' });
     expect(rule.body).toHaveLength(1);
     expect(rule.body[0].type).toBe('SemanticMatch');
-    expect(rule.body[0].left).toEqual({ type: 'FieldAccess', object: 'X', field: 'description' });
+    expect(rule.body[0].left).toEqual({ type: 'FieldAccess', object: { type: 'Atom', value: 'X' }, field: 'description' });
     expect(rule.body[0].right).toEqual({ type: 'StringLiteral', value: 'human' });
   });
 
@@ -136,4 +137,179 @@ describe('Parser', () => {
     expect(ast.statements[2].type).toBe('RuleDeclaration');
     expect(ast.statements[3].type).toBe('Query');
   });
+
+  test('parses arithmetic with precedence and comparisons', () => {
+    const source = '? n is 1 + 2 * -3, n < 0.';
+    const lexer = new Lexer(source);
+    const parser = new Parser(lexer.tokenize());
+    const ast = parser.parse();
+
+    const query = ast.statements[0] as any;
+    expect(query.body[0]).toEqual({
+      type: 'PredicateCall',
+      name: 'is',
+      arguments: [
+        { type: 'Variable', name: 'n' },
+        {
+          type: 'CompoundTerm',
+          functor: '+',
+          args: [
+            { type: 'NumberLiteral', value: 1 },
+            { type: 'CompoundTerm', functor: '*', args: [{ type: 'NumberLiteral', value: 2 }, { type: 'NumberLiteral', value: -3 }] },
+          ],
+        },
+      ],
+    });
+    expect(query.body[1]).toEqual({
+      type: 'Comparison',
+      operator: '<',
+      left: { type: 'Variable', name: 'n' },
+      right: { type: 'NumberLiteral', value: 0 },
+    });
+  });
+
+  test('only treats an adjacent dot as field access', () => {
+    const source = `
+      same(x, y) :- x = y.
+      describe(x) :- println(x.description).
+    `;
+    const lexer = new Lexer(source);
+    const parser = new Parser(lexer.tokenize());
+    const ast = parser.parse();
+
+    expect(ast.statements).toHaveLength(2);
+    const rule = ast.statements[1] as any;
+    expect(rule.body[0].arguments[0]).toEqual({ type: 'FieldAccess', object: { type: 'Variable', name: 'x' }, field: 'description' });
+  });
+
+  test('parses a semantic match with a threshold override', () => {
+    const source = '? x.description =~= "philosopher" @ 0.9.';
+    const lexer = new Lexer(source);
+    const parser = new Parser(lexer.tokenize());
+    const ast = parser.parse();
+
+    const query = ast.statements[0] as any;
+    expect(query.body[0].type).toBe('SemanticMatch');
+    expect(query.body[0].threshold).toEqual({ type: 'NumberLiteral', value: 0.9 });
+  });
+
+  test('parses a bare lowercase name as a zero-arity call', () => {
+    const source = '? trace, mortal(x), notrace.';
+    const lexer = new Lexer(source);
+    const parser = new Parser(lexer.tokenize());
+    const ast = parser.parse();
+
+    const query = ast.statements[0] as any;
+    expect(query.body[0]).toEqual({ type: 'PredicateCall', name: 'trace', arguments: [] });
+    expect(query.body[2]).toEqual({ type: 'PredicateCall', name: 'notrace', arguments: [] });
+  });
+
+  test('attaches source spans to statements and goals', () => {
+    const source = 'Mortal(x) :-\n  Man(x).';
+    const parser = new Parser(new Lexer(source).tokenize(), { text: source });
+    const ast = parser.parse();
+
+    const rule = ast.statements[0] as any;
+    expect(rule.span.start).toEqual({ line: 1, column: 1 });
+    expect(rule.body[0].span.start).toEqual({ line: 2, column: 3 });
+    expect(rule.body[0].span.end).toEqual({ line: 2, column: 9 });
+  });
+
+  test('reports syntax errors with a location and a code frame', () => {
+    const source = 'Man(SOCRATES).\nMortal(x) :- Man(x.';
+    const parser = new Parser(new Lexer(source, 'socrates.frisco').tokenize(), { text: source, file: 'socrates.frisco' });
+
+    let error: unknown;
+    try {
+      parser.parse();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(FriscoSyntaxError);
+    expect((error as FriscoSyntaxError).span?.start).toEqual({ line: 2, column: 19 });
+    expect(formatDiagnostic(error)).toBe([
+      'syntax error: Expected RPAREN but got DOT',
+      '  --> socrates.frisco:2:19',
+      '  |',
+      '2 | Mortal(x) :- Man(x.',
+      '  |                   ^',
+    ].join('\n'));
+  });
+
+  test('recovers from syntax errors and reports each of them', () => {
+    const source = [
+      'Man(SOCRATES).',
+      'Mortal(x) :- Man(x.',
+      'concept Person: description = 5.',
+      '? Mortal(y) $.',
+      'Man(PLATO).',
+    ].join('\n');
+
+    const { program, errors } = parseSource(source, 'socrates.frisco');
+
+    expect(errors.map((error) => error.span?.start)).toEqual([
+      { line: 2, column: 19 },
+      { line: 3, column: 31 },
+      { line: 4, column: 13 },
+    ]);
+    expect(program.statements.map((statement) => statement.type)).toEqual(['RuleDeclaration', 'Query', 'RuleDeclaration']);
+  });
+
+  test('resumes at a directive that follows a broken statement', () => {
+    const source = ['Mortal(x) :- Man(x', ':- dynamic(man/1', ':- initialization(main).', 'Man(PLATO).'].join('\n');
+
+    const { program, errors } = parseSource(source);
+
+    expect(errors.map((error) => error.span?.start)).toEqual([
+      { line: 2, column: 1 },
+      { line: 3, column: 1 },
+    ]);
+    expect(program.statements.map((statement) => statement.type)).toEqual(['Directive', 'RuleDeclaration']);
+  });
+
+  test('resumes after a field access dot only at the end of the statement', () => {
+    const source = '? SOCRATES.description =~= ) .\n? Man(x).';
+
+    const { program, errors } = parseSource(source);
+
+    expect(errors).toHaveLength(1);
+    expect(program.statements).toHaveLength(1);
+    expect((program.statements[0] as any).body[0].name).toBe('Man');
+  });
+
+  test('parses a genus-only concept and excluded inherited entries', () => {
+    const source = 'concept Bird: Animal.\nconcept Penguin: Bird, attributes = ["swims", -"flies"], essentials = [-flight].';
+    const ast = new Parser(new Lexer(source).tokenize()).parse();
+
+    expect(ast.statements[0]).toMatchObject({ name: 'Bird', genus: 'Animal', attributes: [] });
+    expect(ast.statements[1]).toMatchObject({
+      genus: 'Bird',
+      attributes: ['swims'],
+      excludedAttributes: ['flies'],
+      essentials: [],
+      excludedEssentials: ['flight'],
+    });
+  });
+
+  test('parses concept and entity as goals when a parenthesis follows', () => {
+    const ast = new Parser(new Lexer('? concept(c), entity(e, c).').tokenize()).parse();
+
+    const query = ast.statements[0] as any;
+    expect(query.body.map((goal: any) => [goal.type, goal.name])).toEqual([
+      ['PredicateCall', 'concept'],
+      ['PredicateCall', 'entity'],
+    ]);
+  });
+
+  test('parses chained field access', () => {
+    const ast = new Parser(new Lexer('? SOCRATES.teacher.description =~= "philosopher".').tokenize()).parse();
+
+    const query = ast.statements[0] as any;
+    expect(query.body[0].left).toEqual({
+      type: 'FieldAccess',
+      object: { type: 'FieldAccess', object: { type: 'Atom', value: 'SOCRATES' }, field: 'teacher' },
+      field: 'description',
+    });
+  });
 });
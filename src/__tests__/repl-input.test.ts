@@ -0,0 +1,27 @@
+import { parseSource } from '../parser.js';
+import { Executor } from '../executor.js';
+import { isReplCommand, replSource } from '../repl-input.js';
+
+describe('REPL input', () => {
+  test('tells commands from directives', () => {
+    expect(isReplCommand(':kb')).toBe(true);
+    expect(isReplCommand('  :fuzzy min')).toBe(true);
+    expect(isReplCommand(':- set_threshold(0.9).')).toBe(false);
+    expect(isReplCommand(':- dynamic(p/1)')).toBe(false);
+  });
+
+  test('turns bare goals into queries and completes the period', () => {
+    expect(replSource('man(x)')).toBe('? man(x).');
+    expect(replSource('? man(x)')).toBe('? man(x).');
+    expect(replSource(':- set_threshold(0.9)')).toBe(':- set_threshold(0.9).');
+    expect(replSource('mortal(x) :- man(x).')).toBe('mortal(x) :- man(x).');
+  });
+
+  test('runs a directive entered at the prompt', async () => {
+    const executor = new Executor(0.7, () => {});
+    const { program, errors } = parseSource(replSource(':- set_threshold(0.9)'));
+    expect(errors).toEqual([]);
+    await executor.consult(program);
+    expect(executor.getMatcher().getThreshold()).toBe(0.9);
+  });
+});
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Lexer } from '../lexer.js';
+import { Parser, parseSource } from '../parser.js';
+import { Executor } from '../executor.js';
+import { Serializer } from '../serializer.js';
+import * as AST from '../ast.js';
+
+function parse(source: string): AST.Program {
+  return new Parser(new Lexer(source).tokenize()).parse();
+}
+
+const exampleFiles = [
+  ...fs.readdirSync('.').filter((file) => file.endsWith('.frisco')),
+  ...fs.readdirSync('examples').filter((file) => file.endsWith('.frisco')).map((file) => path.join('examples', file)),
+];
+
+describe('Serializer', () => {
+  test.each(exampleFiles)('round-trips %s', (file) => {
+    const { program, errors } = parseSource(fs.readFileSync(file, 'utf-8'), file);
+    expect(errors).toEqual([]);
+    const source = Serializer.serialize(program);
+
+    expect(parse(source)).toEqual(program);
+    expect(Serializer.serialize(parse(source))).toBe(source);
+  });
+
+  test('escapes strings and keeps entity properties, exclusions and assignments', () => {
+    const program = parse(`
+      greeting = "say \\"hi\\"\\n\\tand\\\\go".
+      concept Penguin: Bird, description = "a \\"bird\\"", attributes = ["swims", -"flies"], essentials = [beak, "black and white", -wings].
+      entity PINGU: Penguin, description = "clay", teacher = "TUX", concept = "toy".
+      Ready().
+      go :- Ready(), not x =~= "y" @ 0.8, x is -3 * (2 + y) - -4, PINGU.teacher.description =~= w.
+    `);
+    const source = Serializer.serialize(program);
+
+    expect(source).toContain('greeting = "say \\"hi\\"\\n\\tand\\\\go".');
+    expect(source).toContain('  teacher = "TUX",\n  concept = "toy".');
+    expect(parse(source)).toEqual(program);
+  });
+
+  test('saves a knowledge base that loads back unchanged', async () => {
+    const executor = new Executor(0.7, () => {});
+    await executor.execute(parse(`
+      topic = "ethics".
+      concept Man: description = "rational animal".
+      entity SOCRATES: Man, description = "philosopher", teacher = "PROTAGORAS".
+      Mortal(x) :- entity(x, Man).
+      ? assert_entity(PLATO, Man, [description("student of \\"Socrates\\""), school("Academy")]).
+      ? assertz(wise(SOCRATES)).
+    `));
+    const kb = executor.getKnowledgeBase();
+    const saved = Serializer.serializeProgram(kb.concepts, kb.entities, kb.rules, executor.getGlobalBindings());
+
+    const reloaded = new Executor(0.7, () => {});
+    await reloaded.execute(parse(saved));
+
+    expect(reloaded.getKnowledgeBase()).toEqual(kb);
+    expect(reloaded.getGlobalBindings()).toEqual(executor.getGlobalBindings());
+  });
+});
@@ -0,0 +1,383 @@
+// Static checks over a parsed program, run by `frisco check`. Nothing is
+// executed: the checks see the declarations in the program, plus the facts,
+// entities and concepts it asserts with literal names.
+
+import * as AST from './ast.js';
+import { builtinArities, isBuiltin } from './builtins.js';
+import { formatCodeFrame } from './errors.js';
+import { KnowledgeBase, createKnowledgeBase, fieldValue } from './knowledge-base.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'unknown-predicate'
+  | 'arity-mismatch'
+  | 'singleton-variable'
+  | 'unknown-object'
+  | 'unknown-field'
+  | 'unknown-concept'
+  | 'unknown-genus'
+  | 'genus-cycle';
+
+export type LintDiagnostic = {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  span?: AST.SourceSpan;
+};
+
+export function checkProgram(program: AST.Program): LintDiagnostic[] {
+  return new Analyzer(program).check();
+}
+
+//   warning[singleton-variable]: Singleton variable y in Mortal/1
+//     --> socrates.frisco:4:11
+//     ...
+export function formatLintDiagnostic(diagnostic: LintDiagnostic): string {
+  return formatCodeFrame(`${diagnostic.severity}[${diagnostic.code}]: ${diagnostic.message}`, diagnostic.span);
+}
+
+// Builtins whose arguments are goals: name -> argument position
+const META_CALLS: Record<string, number> = { findall: 1, setof: 1, explain: 0, initialization: 0 };
+// Builtins that add or remove clauses of the predicate named by their argument
+const DATABASE_CALLS = new Set(['assertz', 'asserta', 'retract', 'retractall']);
+// Builtins that read an axis or characteristic as text, so that an unbound
+// word there (similar_attr(size, A, B)) is not a singleton variable
+const TEXT_ARGUMENTS: Record<string, number> = { similar_attr: 0, axis_similarity: 0, has_attr: 0, share_attr: 0 };
+
+class Analyzer {
+  private program: AST.Program;
+  private diagnostics: LintDiagnostic[] = [];
+  // The program's concepts and entities
+  private kb: KnowledgeBase = createKnowledgeBase();
+  // Predicate name -> arities with clauses
+  private predicates = new Map<string, Set<number>>();
+  // Names declared at runtime; fields of these cannot be checked
+  private assertedObjects = new Set<string>();
+  // Set when the program asserts clauses, entities or concepts whose names are
+  // only known at runtime, which turns off the checks that would misfire
+  private dynamicPredicates = false;
+  private dynamicObjects = false;
+
+  constructor(program: AST.Program) {
+    this.program = program;
+  }
+
+  check(): LintDiagnostic[] {
+    this.collectDeclarations();
+
+    for (const statement of this.program.statements) {
+      switch (statement.type) {
+        case 'ConceptDeclaration':
+          if (statement.genus && !this.isConcept(statement.genus)) {
+            this.report('error', 'unknown-genus', `Concept ${statement.name} has undeclared genus ${statement.genus}`, statement.span);
+          }
+          this.checkGenusCycle(statement);
+          break;
+        case 'EntityDeclaration':
+          if (!this.isConcept(statement.conceptType)) {
+            this.report('error', 'unknown-concept', `Entity ${statement.name} is a ${statement.conceptType}, which is not a declared concept`, statement.span);
+          }
+          break;
+        case 'RuleDeclaration':
+          statement.head.parameters.forEach((term) => this.checkTerm(term));
+          this.checkGoals(statement.body);
+          this.checkSingletons(statement);
+          break;
+        case 'Query':
+        case 'Directive':
+          this.checkGoals(statement.body);
+          break;
+      }
+    }
+
+    return this.diagnostics.sort(
+      (a, b) => (a.span?.start.line ?? 0) - (b.span?.start.line ?? 0) || (a.span?.start.column ?? 0) - (b.span?.start.column ?? 0)
+    );
+  }
+
+  private collectDeclarations(): void {
+    for (const statement of this.program.statements) {
+      switch (statement.type) {
+        case 'ConceptDeclaration':
+          this.kb.concepts.set(statement.name, statement);
+          break;
+        case 'EntityDeclaration':
+          this.kb.entities.set(statement.name, statement);
+          break;
+        case 'RuleDeclaration':
+          this.addPredicate(statement.head.name, statement.head.parameters.length);
+          forEachCall(statement.body, (call) => this.collectAssertion(call));
+          break;
+        case 'Query':
+          forEachCall(statement.body, (call) => this.collectAssertion(call));
+          break;
+        case 'Directive':
+          forEachCall(statement.body, (call) => {
+            this.collectAssertion(call);
+            this.collectDirective(call);
+          });
+          break;
+      }
+    }
+  }
+
+  // dynamic/1 declares a predicate; an included file may declare anything
+  private collectDirective(call: AST.PredicateCall): void {
+    const [first] = call.arguments;
+    if (call.name === 'dynamic' && first) {
+      const indicator = predicateIndicator(first);
+      if (indicator?.arity !== undefined) {
+        this.addPredicate(indicator.name, indicator.arity);
+      } else {
+        this.dynamicPredicates = true;
+      }
+    }
+    if (call.name === 'include') {
+      this.dynamicPredicates = true;
+      this.dynamicObjects = true;
+    }
+  }
+
+  private collectAssertion(call: AST.PredicateCall): void {
+    const [first] = call.arguments;
+    if (DATABASE_CALLS.has(call.name) && first) {
+      const head = callableTerm(first);
+      if (head) {
+        this.addPredicate(head.name, head.arguments.length);
+      } else {
+        this.dynamicPredicates = true;
+      }
+    }
+    if ((call.name === 'assert_entity' || call.name === 'assert_concept') && first) {
+      if (first.type === 'Atom') {
+        this.assertedObjects.add(first.value);
+      } else {
+        this.dynamicObjects = true;
+      }
+    }
+  }
+
+  private addPredicate(name: string, arity: number): void {
+    const arities = this.predicates.get(name) ?? new Set<number>();
+    arities.add(arity);
+    this.predicates.set(name, arities);
+  }
+
+  private isConcept(name: string): boolean {
+    return this.kb.concepts.has(name) || this.assertedObjects.has(name) || this.dynamicObjects;
+  }
+
+  private checkGoals(goals: AST.Condition[]): void {
+    forEachCondition(goals, (condition) => {
+      switch (condition.type) {
+        case 'PredicateCall':
+          this.checkCall(condition);
+          condition.arguments.forEach((term) => this.checkTerm(term));
+          break;
+        case 'SemanticMatch':
+          this.checkTerm(condition.left);
+          this.checkTerm(condition.right);
+          if (condition.threshold) this.checkTerm(condition.threshold);
+          break;
+        case 'Equality':
+        case 'Comparison':
+          this.checkTerm(condition.left);
+          this.checkTerm(condition.right);
+          break;
+      }
+    });
+  }
+
+  private checkCall(call: AST.PredicateCall): void {
+    const metaArgument = Object.prototype.hasOwnProperty.call(META_CALLS, call.name)
+      ? call.arguments[META_CALLS[call.name]]
+      : undefined;
+    // initialization(main) names a predicate without arguments
+    const goal =
+      metaArgument && (call.name === 'initialization' && metaArgument.type === 'Variable'
+        ? { type: 'PredicateCall' as const, name: metaArgument.name, arguments: [] }
+        : callableTerm(metaArgument));
+    if (goal) {
+      this.checkCall(AST.withSpan(goal, metaArgument.span));
+    }
+
+    const arity = call.arguments.length;
+    if (isBuiltin(call.name)) {
+      const arities = builtinArities(call.name);
+      if (arities && !arities.includes(arity)) {
+        const expected = arities.map((n) => `${call.name}/${n}`).join(' or ');
+        this.report('error', 'arity-mismatch', `Builtin ${call.name} called with ${arity} argument${arity === 1 ? '' : 's'}; expected ${expected}`, call.span);
+      }
+      return;
+    }
+
+    if (this.dynamicPredicates) return;
+    const arities = this.predicates.get(call.name);
+    if (!arities) {
+      this.report('error', 'unknown-predicate', `Unknown predicate ${call.name}/${arity}`, call.span);
+    } else if (!arities.has(arity)) {
+      const defined = [...arities].sort().map((n) => `${call.name}/${n}`).join(', ');
+      this.report('error', 'arity-mismatch', `No clauses for ${call.name}/${arity}; defined: ${defined}`, call.span);
+    }
+  }
+
+  private checkTerm(term: AST.Term): void {
+    switch (term.type) {
+      case 'List':
+        term.elements.forEach((element) => this.checkTerm(element));
+        if (term.tail) this.checkTerm(term.tail);
+        break;
+      case 'CompoundTerm':
+        term.args.forEach((arg) => this.checkTerm(arg));
+        break;
+      case 'FieldAccess':
+        this.checkFieldAccess(term);
+        break;
+    }
+  }
+
+  private checkFieldAccess(access: AST.FieldAccess): void {
+    const { field } = access;
+    // Only names can be checked: variables are bound at runtime, and so is the
+    // object of a chained access
+    if (access.object.type === 'FieldAccess') {
+      this.checkFieldAccess(access.object);
+      return;
+    }
+    if (access.object.type !== 'Atom') return;
+    const object = access.object.value;
+    if (this.assertedObjects.has(object) || this.dynamicObjects) return;
+
+    if (!this.kb.concepts.has(object) && !this.kb.entities.has(object)) {
+      this.report('error', 'unknown-object', `${object} is not a declared concept or entity`, access.span);
+      return;
+    }
+    try {
+      if (fieldValue(this.kb, object, field) === null) {
+        this.report('warning', 'unknown-field', `${object} has no ${field}`, access.span);
+      }
+    } catch {
+      // A genus cycle, reported on the concepts themselves
+    }
+  }
+
+  // Report a concept that is its own ancestor
+  private checkGenusCycle(concept: AST.ConceptDeclaration): void {
+    const chain = [concept.name];
+    let genus = concept.genus;
+    while (genus && !chain.includes(genus)) {
+      chain.push(genus);
+      genus = this.kb.concepts.get(genus)?.genus ?? null;
+    }
+    if (genus === concept.name) {
+      this.report('error', 'genus-cycle', `Concept ${concept.name} is its own ancestor: ${[...chain, genus].join(' -> ')}`, concept.span);
+    }
+  }
+
+  private checkSingletons(rule: AST.RuleDeclaration): void {
+    const occurrences = new Map<string, { count: number; span?: AST.SourceSpan }>();
+    const visit = (name: string, span: AST.SourceSpan | undefined) => {
+      const seen = occurrences.get(name);
+      if (seen) {
+        seen.count++;
+      } else {
+        occurrences.set(name, { count: 1, span });
+      }
+    };
+    const visitTerm = (term: AST.Term): void => {
+      switch (term.type) {
+        case 'Variable':
+          if (!term.anonymous) visit(term.name, term.span);
+          break;
+        case 'FieldAccess':
+          visitTerm(term.object);
+          break;
+        case 'List':
+          term.elements.forEach(visitTerm);
+          if (term.tail) visitTerm(term.tail);
+          break;
+        case 'CompoundTerm':
+          term.args.forEach(visitTerm);
+          break;
+      }
+    };
+
+    rule.head.parameters.forEach(visitTerm);
+    forEachCondition(rule.body, (condition) => {
+      switch (condition.type) {
+        case 'PredicateCall': {
+          const text = Object.prototype.hasOwnProperty.call(TEXT_ARGUMENTS, condition.name) ? TEXT_ARGUMENTS[condition.name] : -1;
+          condition.arguments.forEach((term, i) => {
+            if (i !== text || term.type !== 'Variable') visitTerm(term);
+          });
+          break;
+        }
+        case 'SemanticMatch':
+          visitTerm(condition.left);
+          visitTerm(condition.right);
+          if (condition.threshold) visitTerm(condition.threshold);
+          break;
+        case 'Equality':
+        case 'Comparison':
+          visitTerm(condition.left);
+          visitTerm(condition.right);
+          break;
+      }
+    });
+
+    const predicate = `${rule.head.name}/${rule.head.parameters.length}`;
+    for (const [name, { count, span }] of occurrences) {
+      if (count === 1) {
+        this.report('warning', 'singleton-variable', `Singleton variable ${name} in ${predicate}; use _ if it is intentional`, span);
+      }
+    }
+  }
+
+  private report(severity: LintSeverity, code: LintCode, message: string, span: AST.SourceSpan | undefined): void {
+    this.diagnostics.push({ severity, code, message, span });
+  }
+}
+
+// Visit every goal, including those nested in negations, disjunctions and if-then-else
+function forEachCondition(goals: AST.Condition[], visit: (condition: AST.Condition) => void): void {
+  for (const goal of goals) {
+    visit(goal);
+    switch (goal.type) {
+      case 'Negation':
+        forEachCondition(goal.goals, visit);
+        break;
+      case 'Disjunction':
+        forEachCondition(goal.left, visit);
+        forEachCondition(goal.right, visit);
+        break;
+      case 'IfThenElse':
+        forEachCondition(goal.condition, visit);
+        forEachCondition(goal.thenBranch, visit);
+        forEachCondition(goal.elseBranch, visit);
+        break;
+    }
+  }
+}
+
+function forEachCall(goals: AST.Condition[], visit: (call: AST.PredicateCall) => void): void {
+  forEachCondition(goals, (condition) => {
+    if (condition.type === 'PredicateCall') visit(condition);
+  });
+}
+
+// visited/1 or visited, as dynamic/1 reads it; null when it is neither
+function predicateIndicator(term: AST.Term): { name: string; arity?: number } | null {
+  const [name, arity] = term.type === 'CompoundTerm' && term.functor === '/' ? term.args : [term];
+  const text = name.type === 'Variable' ? name.name : name.type === 'Atom' || name.type === 'StringLiteral' ? name.value : null;
+  if (text === null) return null;
+  if (arity === undefined) return { name: text };
+  return arity.type === 'NumberLiteral' ? { name: text, arity: arity.value } : null;
+}
+
+// The call a goal term stands for, as builtins.ts termToGoal reads it
+function callableTerm(term: AST.Term): AST.PredicateCall | null {
+  if (term.type === 'CompoundTerm') return { type: 'PredicateCall', name: term.functor, arguments: term.args };
+  if (term.type === 'Atom') return { type: 'PredicateCall', name: term.value, arguments: [] };
+  return null;
+}
@@ -0,0 +1,103 @@
+// Arithmetic evaluation for is/2 and the numeric comparison operators
+
+import * as AST from './ast.js';
+import { FriscoRuntimeError } from './errors.js';
+
+export type ComparisonOperator = AST.ComparisonCondition['operator'];
+
+// Functors written infix (or prefix, for unary minus) in source
+export const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/', '//', 'mod']);
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  sqrt: Math.sqrt,
+  floor: Math.floor,
+  ceiling: Math.ceil,
+  round: Math.round,
+  truncate: Math.trunc,
+};
+
+export function isArithmeticOperator(term: AST.Term): boolean {
+  return term.type === 'CompoundTerm' && ARITHMETIC_OPERATORS.has(term.functor) && (term.args.length === 2 || (term.functor === '-' && term.args.length === 1));
+}
+
+// Evaluate an arithmetic expression. `resolve` dereferences variables and field
+// accesses; strings that spell a number (entity properties are always strings)
+// are read as that number.
+export function evaluateArithmetic(term: AST.Term, resolve: (term: AST.Term) => AST.Term): number {
+  const t = resolve(term);
+  switch (t.type) {
+    case 'NumberLiteral':
+      return t.value;
+    case 'StringLiteral': {
+      const value = Number(t.value);
+      if (t.value.trim() === '' || Number.isNaN(value)) {
+        throw new FriscoRuntimeError(`Arithmetic: "${t.value}" is not a number`);
+      }
+      return value;
+    }
+    case 'Variable':
+      throw new FriscoRuntimeError(`Arithmetic: ${t.name} is not sufficiently instantiated`);
+    case 'CompoundTerm': {
+      const args = t.args.map((arg) => evaluateArithmetic(arg, resolve));
+      if (isArithmeticOperator(t)) return applyOperator(t.functor, args);
+      const fn = FUNCTIONS[t.functor];
+      if (fn) return fn(...args);
+      throw new FriscoRuntimeError(`Arithmetic: unknown function ${t.functor}/${t.args.length}`);
+    }
+    case 'Atom':
+      throw new FriscoRuntimeError(`Arithmetic: ${t.value} is not a number`);
+    default:
+      throw new FriscoRuntimeError(`Arithmetic: cannot evaluate a ${t.type}`);
+  }
+}
+
+function applyOperator(op: string, args: number[]): number {
+  if (args.length === 1) return -args[0];
+  const [a, b] = args;
+  switch (op) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      if (b === 0) throw new FriscoRuntimeError('Arithmetic: division by zero');
+      return a / b;
+    case '//':
+      if (b === 0) throw new FriscoRuntimeError('Arithmetic: division by zero');
+      return Math.trunc(a / b);
+    case 'mod':
+      if (b === 0) throw new FriscoRuntimeError('Arithmetic: division by zero');
+      return a - b * Math.floor(a / b);
+    default:
+      throw new FriscoRuntimeError(`Arithmetic: unknown operator ${op}`);
+  }
+}
+
+export function compareNumbers(op: ComparisonOperator, a: number, b: number): boolean {
+  switch (op) {
+    case '<':
+      return a < b;
+    case '>':
+      return a > b;
+    case '=<':
+      return a <= b;
+    case '>=':
+      return a >= b;
+    case '=:=':
+      return a === b;
+    case '=\\=':
+      return a !== b;
+  }
+}
+
+// Render an operator term as infix source, parenthesizing nested operator terms
+export function formatArithmetic(term: AST.CompoundTerm, render: (term: AST.Term) => string): string {
+  const operand = (arg: AST.Term) => (isArithmeticOperator(arg) ? `(${render(arg)})` : render(arg));
+  if (term.args.length === 1) return `-${operand(term.args[0])}`;
+  return `${operand(term.args[0])} ${term.functor} ${operand(term.args[1])}`;
+}
@@ -1,5 +1,29 @@
+// The text a span points into, so diagnostics can quote it
+export type SourceText = {
+  text: string;
+  file?: string;
+};
+
+// Where a node came from in the source: 1-based lines and columns, end exclusive
+export type SourceSpan = {
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+  source?: SourceText;
+};
+
+// The parser attaches spans as non-enumerable properties, so structural
+// comparisons and JSON dumps of the AST are unaffected and spreading a node
+// ({ ...node }) drops its span
+export function withSpan<T extends object>(node: T, span: SourceSpan | undefined): T {
+  if (span) {
+    Object.defineProperty(node, 'span', { value: span, enumerable: false, writable: true, configurable: true });
+  }
+  return node;
+}
+
 export type Program = {
   type: 'Program';
+  span?: SourceSpan;
   statements: Statement[];
 };
 
@@ -8,19 +32,25 @@ export type Statement =
   | EntityDeclaration
   | RuleDeclaration
   | Query
+  | Directive
   | Assignment;
 
 export type ConceptDeclaration = {
   type: 'ConceptDeclaration';
+  span?: SourceSpan;
   name: string;
   genus: string | null;
   description: string | null;
   attributes: string[];
   essentials: string[];
+  // Inherited entries this concept drops, written -"entry" in its lists
+  excludedAttributes: string[];
+  excludedEssentials: string[];
 };
 
 export type EntityDeclaration = {
   type: 'EntityDeclaration';
+  span?: SourceSpan;
   name: string;
   conceptType: string;
   description: string | null;
@@ -29,11 +59,13 @@ export type EntityDeclaration = {
 
 export type RuleDeclaration = {
   type: 'RuleDeclaration';
+  span?: SourceSpan;
   head: PredicateHead;
   body: Condition[];
 };
 
 export type PredicateHead = {
+  span?: SourceSpan;
   name: string;
   parameters: Term[];
 };
@@ -42,6 +74,7 @@ export type Condition =
   | SemanticMatchCondition
   | PredicateCall
   | EqualityCondition
+  | ComparisonCondition
   | Negation
   | Disjunction
   | IfThenElse
@@ -49,37 +82,52 @@ export type Condition =
 
 export type PredicateCall = {
   type: 'PredicateCall';
+  span?: SourceSpan;
   name: string;
   arguments: Term[];
 };
 
 export type EqualityCondition = {
   type: 'Equality';
+  span?: SourceSpan;
   operator: '=' | '==';
   left: Term;
   right: Term;
 };
 
+export type ComparisonCondition = {
+  type: 'Comparison';
+  span?: SourceSpan;
+  operator: '<' | '>' | '=<' | '>=' | '=:=' | '=\\=';
+  left: Term;
+  right: Term;
+};
 
 export type SemanticMatchCondition = {
   type: 'SemanticMatch';
+  span?: SourceSpan;
   left: Term;
   right: Term;
+  // Per-call threshold (`a =~= b @ 0.9`), overriding the matcher default
+  threshold?: Term;
 };
 
 export type Negation = {
   type: 'Negation';
+  span?: SourceSpan;
   goals: Condition[];
 };
 
 export type Disjunction = {
   type: 'Disjunction';
+  span?: SourceSpan;
   left: Condition[];
   right: Condition[];
 };
 
 export type IfThenElse = {
   type: 'IfThenElse';
+  span?: SourceSpan;
   condition: Condition[];
   thenBranch: Condition[];
   elseBranch: Condition[];
@@ -87,11 +135,15 @@ export type IfThenElse = {
 
 export type Cut = {
   type: 'Cut';
+  span?: SourceSpan;
 };
 
 export type FieldAccess = {
   type: 'FieldAccess';
-  object: string;
+  span?: SourceSpan;
+  // A concept or entity name, a variable bound to one, or a field access whose
+  // value names one (SOCRATES.teacher.description)
+  object: Atom | Variable | FieldAccess;
   field: string;
 };
 
@@ -99,46 +151,67 @@ export type Term =
   | Variable
   | Atom
   | StringLiteral
+  | NumberLiteral
   | List
   | CompoundTerm
   | FieldAccess;
 
 export type Variable = {
   type: 'Variable';
+  span?: SourceSpan;
   name: string;
   anonymous?: boolean;
 };
 
 export type Atom = {
   type: 'Atom';
+  span?: SourceSpan;
   value: string;
 };
 
 
 export type StringLiteral = {
   type: 'StringLiteral';
+  span?: SourceSpan;
   value: string;
 };
 
+export type NumberLiteral = {
+  type: 'NumberLiteral';
+  span?: SourceSpan;
+  value: number;
+};
+
 export type List = {
   type: 'List';
+  span?: SourceSpan;
   elements: Term[];
   tail?: Term | null;
 };
 
 export type CompoundTerm = {
   type: 'CompoundTerm';
+  span?: SourceSpan;
   functor: string;
   args: Term[];
 };
 
 export type Query = {
   type: 'Query';
+  span?: SourceSpan;
+  body: Condition[];
+};
+
+// :- set_threshold(0.85).  Goals run once while the program loads
+export type Directive = {
+  type: 'Directive';
+  span?: SourceSpan;
   body: Condition[];
 };
 
 export type Assignment = {
   type: 'Assignment';
+  span?: SourceSpan;
   variable: string;
   value: string;
 };
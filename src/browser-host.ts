@@ -0,0 +1,25 @@
+// The engine as the web REPL runs it: output and input come from the page,
+// every judgment is logged to the developer console, and there is no file
+// system, so consult/1 is an error. Nothing here may import a Node module.
+
+import { Executor, InputHandler, OutputHandler } from './executor.js';
+import { JudgeBackend, OpenAICompatibleBackend } from './judge-backend.js';
+
+export function createBrowserExecutor(
+  output: OutputHandler,
+  input: InputHandler,
+  judge: JudgeBackend = new OpenAICompatibleBackend(),
+  threshold = 0.7
+): Executor {
+  return new Executor(threshold, output, input, loggingJudge(judge));
+}
+
+function loggingJudge(judge: JudgeBackend): JudgeBackend {
+  return {
+    async judge(request) {
+      const response = await judge.judge(request);
+      console.log(`${request.operation}(${request.args.map((arg) => JSON.stringify(arg)).join(', ')}): ${JSON.stringify(response)}`);
+      return response;
+    },
+  };
+}
@@ -1,39 +1,59 @@
 import * as AST from './ast.js';
-import type { Executor } from './executor';
+import type { Executor, GoalContext } from './executor';
+import { fieldNames, fieldValue, genusChain, parsePredicateIndicator } from './knowledge-base.js';
+import { FriscoRuntimeError } from './errors.js';
+import { parseSource } from './parser.js';
 
 export type Substitution = Map<string, AST.Term>;
 
 export type BuiltinHandler = (
   args: AST.Term[],
   subst: Substitution,
-  executor: Executor
+  executor: Executor,
+  context: GoalContext
 ) => AsyncGenerator<Substitution>;
 
 export function runBuiltin(
   name: string,
   args: AST.Term[],
   subst: Substitution,
-  executor: Executor
+  executor: Executor,
+  context: GoalContext
 ): AsyncGenerator<Substitution> | null {
   const handler = builtinTable[name];
-  return handler ? handler(args, subst, executor) : null;
+  return handler ? handler(args, subst, executor, context) : null;
+}
+
+export function isBuiltin(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(builtinTable, name);
+}
+
+export function builtinNames(): string[] {
+  return Object.keys(builtinTable);
+}
+
+// The arities a builtin accepts (a builtin called with any other number of
+// arguments fails), or null when it takes any number
+export function builtinArities(name: string): number[] | null {
+  return BUILTIN_ARITIES[name] ?? null;
 }
 
 const builtinTable: Record<string, BuiltinHandler> = {
+  // print/N: Write the values separated by spaces, without ending the line
   print: async function* (args, subst, exec) {
-    const rendered = args.map((a) => exec.termToString(exec.deref(a, subst), subst)).join(' ');
-    exec.getOutputHandler()(rendered);
+    exec.write(args.map((a) => exec.termToPrintable(a, subst)).join(' '));
     yield subst;
   },
   println: async function* (args, subst, exec) {
-    const rendered = args.map((a) => exec.termToString(exec.deref(a, subst), subst)).join(' ');
-    exec.getOutputHandler()(rendered);
+    exec.writeLine(args.map((a) => exec.termToPrintable(a, subst)).join(' '));
     yield subst;
   },
   readln: async function* (args, subst, exec) {
     if (args.length !== 1) return;
     const target = exec.deref(args[0], subst);
     if (target.type !== 'Variable') return;
+    // Show what print/1 wrote, typically the question, before waiting for the answer
+    exec.flushOutput();
     const input = await exec.getInputHandler()('');
     const next = new Map(subst);
     next.set(target.name, { type: 'StringLiteral', value: input });
@@ -73,42 +93,81 @@ const builtinTable: Record<string, BuiltinHandler> = {
     const t = exec.deref(args[0], subst);
     if (t.type === 'List') yield subst;
   },
+  length: async function* (args, subst, exec) {
+    if (args.length !== 2) return;
+    const listTerm = exec.deref(args[0], subst);
+    if (listTerm.type !== 'List' || listTerm.tail) return;
+    const count: AST.NumberLiteral = { type: 'NumberLiteral', value: listTerm.elements.length };
+    const unified = exec.unify(args[1], count, subst);
+    if (unified) yield unified;
+  },
+
+  // is/2: Evaluate the arithmetic expression on the right and unify it with the left
+  is: async function* (args, subst, exec) {
+    if (args.length !== 2) return;
+    const result: AST.NumberLiteral = { type: 'NumberLiteral', value: exec.evaluateArithmetic(args[1], subst) };
+    const unified = exec.unify(args[0], result, subst);
+    if (unified) yield unified;
+  },
   // Gradient similarity along an axis (less epistemologically pure, but useful)
-  similar_attr: async function* (args, subst, exec) {
+  similar_attr: async function* (args, subst, exec, { signal }) {
     if (args.length !== 3) return;
     const dim = exec.termToString(exec.deref(args[0], subst), subst).replace(/^"|"$/g, '');
     const a = exec.termToString(exec.deref(args[1], subst), subst).replace(/^"|"$/g, '');
     const b = exec.termToString(exec.deref(args[2], subst), subst).replace(/^"|"$/g, '');
-    const ok = await exec.getMatcher().matchWithThreshold(a, b, dim);
+    const ok = await exec.getMatcher().matchWithThreshold(a, b, dim, signal);
     if (ok) yield subst;
   },
 
+  // similarity/3: Bind the conceptual identity score (0-1) of A and B
+  similarity: async function* (args, subst, exec, { signal }) {
+    if (args.length !== 3) return;
+    const a = await exec.termToValue(args[0], subst);
+    const b = await exec.termToValue(args[1], subst);
+    if (a === null || typeof b !== 'string') return;
+    const score: AST.NumberLiteral = { type: 'NumberLiteral', value: await exec.getMatcher().getBestConceptualIdentity(a, b, signal) };
+    const unified = exec.unify(args[2], score, subst);
+    if (unified) yield unified;
+  },
+
+  // axis_similarity/4: Bind the similarity score (0-1) of A and B along one axis
+  axis_similarity: async function* (args, subst, exec, { signal }) {
+    if (args.length !== 4) return;
+    const axis = exec.termToString(exec.deref(args[0], subst), subst).replace(/^"|"$/g, '');
+    const a = await exec.termToValue(args[1], subst);
+    const b = await exec.termToValue(args[2], subst);
+    if (typeof a !== 'string' || typeof b !== 'string') return;
+    const score: AST.NumberLiteral = { type: 'NumberLiteral', value: await exec.getMatcher().getSimilarityAlongAxis(axis, a, b, signal) };
+    const unified = exec.unify(args[3], score, subst);
+    if (unified) yield unified;
+  },
+
   // has_attr/2: Does this concrete possess this characteristic? (measurement-omission)
-  has_attr: async function* (args, subst, exec) {
+  has_attr: async function* (args, subst, exec, { signal }) {
     if (args.length !== 2) return;
     const characteristic = exec.termToString(exec.deref(args[0], subst), subst).replace(/^"|"$/g, '');
     const concrete = exec.termToString(exec.deref(args[1], subst), subst).replace(/^"|"$/g, '');
-    const ok = await exec.getMatcher().hasAttribute(characteristic, concrete);
+    const ok = await exec.getMatcher().hasAttribute(characteristic, concrete, signal);
     if (ok) yield subst;
   },
 
   // share_attr/3: Do both concretes possess this characteristic? (measurement-omission)
-  share_attr: async function* (args, subst, exec) {
+  share_attr: async function* (args, subst, exec, { signal }) {
     if (args.length !== 3) return;
     const characteristic = exec.termToString(exec.deref(args[0], subst), subst).replace(/^"|"$/g, '');
     const a = exec.termToString(exec.deref(args[1], subst), subst).replace(/^"|"$/g, '');
     const b = exec.termToString(exec.deref(args[2], subst), subst).replace(/^"|"$/g, '');
-    const ok = await exec.getMatcher().shareAttribute(characteristic, a, b);
+    const ok = await exec.getMatcher().shareAttribute(characteristic, a, b, signal);
     if (ok) yield subst;
   },
 
   // differentia/3: What distinguishes A from B? Binds result to third argument
-  differentia: async function* (args, subst, exec) {
+  differentia: async function* (args, subst, exec, { signal }) {
     if (args.length !== 3) return;
     const a = exec.termToString(exec.deref(args[0], subst), subst).replace(/^"|"$/g, '');
     const b = exec.termToString(exec.deref(args[1], subst), subst).replace(/^"|"$/g, '');
     const resultVar = exec.deref(args[2], subst);
-    const differentia = await exec.getMatcher().getDifferentia(a, b);
+    const differentia = await exec.getMatcher().getDifferentia(a, b, signal);
     if (differentia) {
       const resultTerm: AST.StringLiteral = { type: 'StringLiteral', value: differentia };
       const unified = exec.unify(resultVar, resultTerm, subst);
@@ -130,26 +189,31 @@ const builtinTable: Record<string, BuiltinHandler> = {
     const t = exec.deref(args[0], subst);
     if (t.type === 'Atom' || t.type === 'StringLiteral') yield subst;
   },
-  findall: async function* (args, subst, exec) {
+  is_number: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const t = exec.deref(args[0], subst);
+    if (t.type === 'NumberLiteral') yield subst;
+  },
+  findall: async function* (args, subst, exec, context) {
 
     if (args.length !== 3) return;
     const [template, goalTerm, listVar] = args;
     const goalCondition = termToGoal(goalTerm);
     const results: AST.Term[] = [];
-    for await (const s of exec.evaluateGoals([goalCondition], new Map(subst))) {
+    for await (const s of exec.evaluateNestedGoals([goalCondition], new Map(subst), context)) {
       results.push(exec.deref(template, s));
     }
     const list: AST.List = { type: 'List', elements: results, tail: null };
     const unified = exec.unify(listVar, list, subst);
     if (unified) yield unified;
   },
-  setof: async function* (args, subst, exec) {
+  setof: async function* (args, subst, exec, context) {
     if (args.length !== 3) return;
     const [template, goalTerm, listVar] = args;
     const goalCondition = termToGoal(goalTerm);
     const results: string[] = [];
     const templTerms: AST.Term[] = [];
-    for await (const s of exec.evaluateGoals([goalCondition], new Map(subst))) {
+    for await (const s of exec.evaluateNestedGoals([goalCondition], new Map(subst), context)) {
       const value = exec.termToString(exec.deref(template, s), s);
       results.push(value);
       templTerms.push(exec.deref(template, s));
@@ -166,8 +230,391 @@ const builtinTable: Record<string, BuiltinHandler> = {
     const unified = exec.unify(listVar, list, subst);
     if (unified) yield unified;
   },
+
+  // explain/1: Solve Goal like call/1, printing the derivation of each solution
+  explain: async function* (args, subst, exec, context) {
+    if (args.length !== 1) return;
+    const goal = termToGoal(exec.deref(args[0], subst));
+    for await (const solution of exec.prove([goal], subst, context)) {
+      exec.outputProof(solution);
+      yield solution.subst;
+    }
+  },
+
+  // Debugging: trace/0 and notrace/0 switch the tracer on and off; spy/1 and
+  // nospy/1 take a predicate name or name/arity
+  trace: async function* (args, subst, exec) {
+    if (args.length !== 0) return;
+    exec.getTracer().trace();
+    yield subst;
+  },
+  notrace: async function* (args, subst, exec) {
+    if (args.length !== 0) return;
+    exec.getTracer().notrace();
+    yield subst;
+  },
+  spy: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const indicator = predicateIndicator(exec, args[0], subst, 'spy');
+    exec.getTracer().spy(indicator.name, indicator.arity);
+    yield subst;
+  },
+  nospy: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const indicator = predicateIndicator(exec, args[0], subst, 'nospy');
+    exec.getTracer().nospy(indicator.name, indicator.arity);
+    yield subst;
+  },
+
+  // Ontology reflection: enumerate the concepts and entities of the knowledge
+  // base. Names are bound to atoms, field names and values to strings.
+  // concept/1: C is a declared concept
+  concept: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    yield* unifyEach(exec, subst, [...exec.getKnowledgeBase().concepts.keys()].map((name) => [args[0], atom(name)]));
+  },
+  // entity/2: E is an entity declared as a C
+  entity: async function* (args, subst, exec) {
+    if (args.length !== 2) return;
+    const entities = [...exec.getKnowledgeBase().entities.values()];
+    yield* unifyEach(exec, subst, entities.map((e) => [args[0], atom(e.name), args[1], atom(e.conceptType)]));
+  },
+  // genus/2: G is the genus of concept C
+  genus: async function* (args, subst, exec) {
+    if (args.length !== 2) return;
+    const concepts = [...exec.getKnowledgeBase().concepts.values()].filter((c) => c.genus);
+    yield* unifyEach(exec, subst, concepts.map((c) => [args[0], atom(c.name), args[1], atom(c.genus!)]));
+  },
+  // is_a/2: E is an entity of concept C or of one of C's subconcepts
+  is_a: async function* (args, subst, exec) {
+    if (args.length !== 2) return;
+    const kb = exec.getKnowledgeBase();
+    const pairs = [...kb.entities.values()].flatMap((e) =>
+      genusChain(kb, e.conceptType).map((c) => [args[0], atom(e.name), args[1], atom(c.name)])
+    );
+    yield* unifyEach(exec, subst, pairs);
+  },
+  // subconcept/2: A is a strict descendant of B along the genus chain
+  subconcept: async function* (args, subst, exec) {
+    if (args.length !== 2) return;
+    const kb = exec.getKnowledgeBase();
+    const pairs = [...kb.concepts.keys()].flatMap((name) =>
+      genusChain(kb, name).slice(1).map((ancestor) => [args[0], atom(name), args[1], atom(ancestor.name)])
+    );
+    yield* unifyEach(exec, subst, pairs);
+  },
+  // field/3: Value is the Name field of the concept or entity Obj, e.g.
+  // field(SOCRATES, "description", d) or field(SOCRATES, n, v) for every field
+  field: async function* (args, subst, exec) {
+    if (args.length !== 3) return;
+    const kb = exec.getKnowledgeBase();
+    const object = nameOf(exec.deref(args[0], subst));
+    const objects = object !== null ? [object] : [...new Set([...kb.concepts.keys(), ...kb.entities.keys()])];
+    const requested = nameOf(exec.deref(args[1], subst));
+    const pairs = objects.flatMap((name) =>
+      (requested !== null ? [requested] : fieldNames(kb, name)).flatMap((field) => {
+        const value = fieldValue(kb, name, field);
+        return value === null ? [] : [[args[0], atom(name), args[1], string(field), args[2], fieldTerm(value)]];
+      })
+    );
+    yield* unifyEach(exec, subst, pairs);
+  },
+
+  // consult/1: Load a source file through the platform's file system, adding
+  // its declarations to the knowledge base and running its queries
+  consult: async function* (args, subst, exec, { signal }) {
+    if (args.length !== 1) return;
+    const file = nameOf(exec.deref(args[0], subst));
+    if (file === null) {
+      throw new FriscoRuntimeError('consult/1: expected a file name');
+    }
+    await loadFile(exec, file, 'consult', signal);
+    yield subst;
+  },
+  // include/1: Like consult/1, with a relative name resolved against the
+  // directory of the file that includes it
+  include: async function* (args, subst, exec, { signal }) {
+    if (args.length !== 1) return;
+    const file = nameOf(exec.deref(args[0], subst));
+    if (file === null) {
+      throw new FriscoRuntimeError('include/1: expected a file name');
+    }
+    await loadFile(exec, relativeTo(file, args[0].span?.source?.file), 'include', signal);
+    yield subst;
+  },
+
+  // Directives, though any goal may call them.
+  // set_threshold/1 and set_max_depth/1 change the setting from here on
+  set_threshold: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    exec.setThreshold(exec.evaluateArithmetic(args[0], subst));
+    yield subst;
+  },
+  set_max_depth: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    exec.setMaxDepth(exec.evaluateArithmetic(args[0], subst));
+    yield subst;
+  },
+  // dynamic/1: Declare a predicate whose clauses are asserted at runtime, e.g.
+  // :- dynamic(visited/1). It has no effect on the run; `frisco check` stops
+  // reporting calls to the predicate.
+  dynamic: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    predicateIndicator(exec, args[0], subst, 'dynamic');
+    yield subst;
+  },
+  // initialization/1: Run Goal once the file being loaded has finished loading,
+  // e.g. :- initialization(main). A bare name calls the predicate without arguments.
+  initialization: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const term = exec.deref(args[0], subst);
+    const goal: AST.Condition =
+      term.type === 'Variable' ? { type: 'PredicateCall', name: term.name, arguments: [] } : termToGoal(exec.instantiate(term, subst));
+    exec.addInitializationGoal(AST.withSpan(goal, args[0].span));
+    yield subst;
+  },
+
+  // Dynamic database: facts added or removed while a query runs. A running
+  // call keeps seeing the clauses that existed when it started. Rules cannot be
+  // written as terms, so they are not asserted or retracted.
+  assertz: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    exec.getKnowledgeBase().rules.push(termToFact(exec.instantiate(args[0], subst), 'assertz'));
+    yield subst;
+  },
+  asserta: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    exec.getKnowledgeBase().rules.unshift(termToFact(exec.instantiate(args[0], subst), 'asserta'));
+    yield subst;
+  },
+  // retract/1: Remove the first matching fact, binding its arguments; retries remove the next one
+  retract: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const head = termToHead(exec.deref(args[0], subst));
+    if (!head) return;
+    const kb = exec.getKnowledgeBase();
+    const facts = kb.rules.filter((rule) => rule.body.length === 0 && matchesHead(rule, head));
+    for (const fact of facts) {
+      const unified = unifyArguments(exec, head.parameters, exec.refreshRuleVariables(fact).head.parameters, subst);
+      if (!unified) continue;
+      const index = kb.rules.indexOf(fact);
+      if (index === -1) continue;
+      kb.rules.splice(index, 1);
+      yield unified;
+    }
+  },
+  // retractall/1: Remove every fact whose head matches, leaving rules in place
+  // as retract/1 does; always succeeds
+  retractall: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const head = termToHead(exec.deref(args[0], subst));
+    if (!head) return;
+    const kb = exec.getKnowledgeBase();
+    kb.rules = kb.rules.filter(
+      (rule) =>
+        rule.body.length > 0 ||
+        !matchesHead(rule, head) ||
+        !unifyArguments(exec, head.parameters, exec.refreshRuleVariables(rule).head.parameters, subst)
+    );
+    yield subst;
+  },
+
+  // assert_entity/2,3: Declare or replace an entity, e.g.
+  // assert_entity(PLATO, Man, [description("student of Socrates"), teacher("SOCRATES")])
+  assert_entity: async function* (args, subst, exec) {
+    if (args.length !== 2 && args.length !== 3) return;
+    const name = nameOf(exec.deref(args[0], subst));
+    const conceptType = nameOf(exec.deref(args[1], subst));
+    if (!name || !conceptType) return;
+    const entity: AST.EntityDeclaration = { type: 'EntityDeclaration', name, conceptType, description: null, properties: new Map() };
+    for (const [key, value] of args.length === 3 ? propertyList(exec.instantiate(args[2], subst), 'assert_entity') : []) {
+      const text = valueToString(value);
+      if (key === 'description') entity.description = text;
+      else entity.properties.set(key, text);
+    }
+    exec.getKnowledgeBase().entities.set(name, entity);
+    yield subst;
+  },
+  retract_entity: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const name = nameOf(exec.deref(args[0], subst));
+    if (name && exec.getKnowledgeBase().entities.delete(name)) yield subst;
+  },
+
+  // assert_concept/1,2: Declare or replace a concept, e.g.
+  // assert_concept(Sophist, [genus(Person), description("paid teacher of rhetoric"), attributes(["persuasive"])]).
+  // exclude_attributes([...]) and exclude_essentials([...]) drop inherited entries.
+  assert_concept: async function* (args, subst, exec) {
+    if (args.length !== 1 && args.length !== 2) return;
+    const name = nameOf(exec.deref(args[0], subst));
+    if (!name) return;
+    const concept: AST.ConceptDeclaration = { type: 'ConceptDeclaration', name, genus: null, description: null, attributes: [], essentials: [], excludedAttributes: [], excludedEssentials: [] };
+    for (const [key, value] of args.length === 2 ? propertyList(exec.instantiate(args[1], subst), 'assert_concept') : []) {
+      switch (key) {
+        case 'genus':
+          concept.genus = valueToString(value);
+          break;
+        case 'description':
+          concept.description = valueToString(value);
+          break;
+        case 'attributes':
+        case 'essentials':
+          concept[key] = value.type === 'List' ? value.elements.map(valueToString) : [valueToString(value)];
+          break;
+        case 'exclude_attributes':
+        case 'exclude_essentials': {
+          const excluded = value.type === 'List' ? value.elements.map(valueToString) : [valueToString(value)];
+          concept[key === 'exclude_attributes' ? 'excludedAttributes' : 'excludedEssentials'] = excluded;
+          break;
+        }
+        default:
+          throw new FriscoRuntimeError(`assert_concept/2: unknown concept property ${key}`);
+      }
+    }
+    const concepts = exec.getKnowledgeBase().concepts;
+    const previous = concepts.get(name);
+    concepts.set(name, concept);
+    try {
+      genusChain(exec.getKnowledgeBase(), name);
+    } catch (error) {
+      if (previous) concepts.set(name, previous);
+      else concepts.delete(name);
+      throw error;
+    }
+    yield subst;
+  },
+  retract_concept: async function* (args, subst, exec) {
+    if (args.length !== 1) return;
+    const name = nameOf(exec.deref(args[0], subst));
+    if (name && exec.getKnowledgeBase().concepts.delete(name)) yield subst;
+  },
+};
+
+const BUILTIN_ARITIES: Record<string, number[]> = {
+  readln: [1], member: [2], append: [3], reverse: [2], is_list: [1], length: [2], is: [2],
+  similar_attr: [3], similarity: [3], axis_similarity: [4], has_attr: [2], share_attr: [3], differentia: [3],
+  is_unbound: [1], is_bound: [1], is_atom: [1], is_number: [1],
+  findall: [3], setof: [3], explain: [1], consult: [1], include: [1], trace: [0], notrace: [0], spy: [1], nospy: [1],
+  assertz: [1], asserta: [1], retract: [1], retractall: [1],
+  assert_entity: [2, 3], retract_entity: [1], assert_concept: [1, 2], retract_concept: [1],
+  concept: [1], entity: [2], genus: [2], is_a: [2], subconcept: [2], field: [3],
+  set_threshold: [1], set_max_depth: [1], dynamic: [1], initialization: [1],
 };
 
+// Read, parse and consult a file for consult/1 and include/1
+async function loadFile(exec: Executor, file: string, builtin: string, signal: AbortSignal | undefined): Promise<void> {
+  const fileSystem = exec.getFileSystem();
+  if (!fileSystem) {
+    throw new FriscoRuntimeError(`${builtin}/1: no file system is available`);
+  }
+  let source: string;
+  try {
+    source = await fileSystem.readFile(file);
+  } catch (error) {
+    throw new FriscoRuntimeError(`${builtin}/1: cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  const { program, errors } = parseSource(source, file);
+  if (errors.length > 0) throw errors[0];
+  await exec.consult(program, {}, signal);
+}
+
+// `file` relative to the directory of `from`, unless it is absolute or there is no `from`
+function relativeTo(file: string, from: string | undefined): string {
+  if (!from || /^([a-zA-Z]:)?[\\/]/.test(file)) return file;
+  return from.slice(0, Math.max(from.lastIndexOf('/'), from.lastIndexOf('\\')) + 1) + file;
+}
+
+function termToHead(term: AST.Term): AST.PredicateHead | null {
+  if (term.type === 'CompoundTerm') return { name: term.functor, parameters: term.args };
+  if (term.type === 'Atom') return { name: term.value, parameters: [] };
+  return null;
+}
+
+function termToFact(term: AST.Term, builtin: string): AST.RuleDeclaration {
+  const head = termToHead(term);
+  if (!head) {
+    throw new FriscoRuntimeError(`${builtin}/1: clause must be a callable term`);
+  }
+  if (builtinTable[head.name]) {
+    throw new FriscoRuntimeError(`${builtin}/1: cannot modify builtin predicate ${head.name}`);
+  }
+  return { type: 'RuleDeclaration', head, body: [] };
+}
+
+// wise, "wise" or wise/1 (which parses as a division)
+function predicateIndicator(exec: Executor, term: AST.Term, subst: Substitution, builtin: string): { name: string; arity?: number } {
+  const text = exec.termToString(exec.deref(term, subst), subst).replace(/^"|"$/g, '').replace(/\s+/g, '');
+  const indicator = parsePredicateIndicator(text);
+  if (!indicator) {
+    throw new FriscoRuntimeError(`${builtin}/1: expected a predicate name or name/arity, got ${text}`);
+  }
+  return indicator;
+}
+
+function matchesHead(rule: AST.RuleDeclaration, head: AST.PredicateHead): boolean {
+  return rule.head.name === head.name && rule.head.parameters.length === head.parameters.length;
+}
+
+function unifyArguments(exec: Executor, left: AST.Term[], right: AST.Term[], subst: Substitution): Substitution | null {
+  let current: Substitution | null = subst;
+  for (let i = 0; i < left.length && current; i++) {
+    current = exec.unify(left[i], right[i], current);
+  }
+  return current;
+}
+
+// Yield a substitution for each row of [term, value, term, value, ...] that unifies
+async function* unifyEach(exec: Executor, subst: Substitution, rows: AST.Term[][]): AsyncGenerator<Substitution> {
+  for (const row of rows) {
+    let current: Substitution | null = subst;
+    for (let i = 0; i < row.length && current; i += 2) {
+      current = exec.unify(row[i], row[i + 1], current);
+    }
+    if (current) yield current;
+  }
+}
+
+function atom(value: string): AST.Atom {
+  return { type: 'Atom', value };
+}
+
+function string(value: string): AST.StringLiteral {
+  return { type: 'StringLiteral', value };
+}
+
+function fieldTerm(value: string | string[]): AST.Term {
+  return Array.isArray(value) ? { type: 'List', elements: value.map(string), tail: null } : string(value);
+}
+
+function nameOf(term: AST.Term): string | null {
+  return term.type === 'Atom' || term.type === 'StringLiteral' ? term.value : null;
+}
+
+function valueToString(term: AST.Term): string {
+  switch (term.type) {
+    case 'Atom':
+    case 'StringLiteral':
+      return term.value;
+    case 'NumberLiteral':
+      return String(term.value);
+    default:
+      throw new FriscoRuntimeError(`Property values must be strings, atoms or numbers, got ${term.type}`);
+  }
+}
+
+// Read a list of name(Value) terms into [name, Value] pairs
+function propertyList(term: AST.Term, builtin: string): Array<[string, AST.Term]> {
+  if (term.type !== 'List' || term.tail) {
+    throw new FriscoRuntimeError(`${builtin}: properties must be a list of name(Value) terms`);
+  }
+  return term.elements.map((element) => {
+    if (element.type !== 'CompoundTerm' || element.args.length !== 1) {
+      throw new FriscoRuntimeError(`${builtin}: properties must be a list of name(Value) terms`);
+    }
+    return [element.functor, element.args[0]];
+  });
+}
+
 function termToGoal(term: AST.Term): AST.Condition {
   if (term.type === 'CompoundTerm') {
     return { type: 'PredicateCall', name: term.functor, arguments: term.args };
@@ -175,5 +622,5 @@ function termToGoal(term: AST.Term): AST.Condition {
   if (term.type === 'Atom') {
     return { type: 'PredicateCall', name: term.value, arguments: [] };
   }
-  throw new Error('Goal term must be a callable term');
+  throw new FriscoRuntimeError('Goal term must be a callable term');
 }
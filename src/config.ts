@@ -0,0 +1,233 @@
+// Per-run configuration (Node only). Each setting comes from, in increasing
+// order of precedence: its default, frisco.config.json (or the "frisco"
+// section of package.json) in the program's directory or the nearest one
+// above it, the FRISCO_* environment variables, and the command line flags.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Executor, OutputFormat } from './executor.js';
+import { JudgeConfig } from './judge-backend.js';
+import {
+  SearchConfig,
+  createSearchIndex,
+  fuzzyLogicFromEnv,
+  judgeConfigFromEnv,
+  parseBackendKind,
+  parseCacheMode,
+  parseFailurePolicy,
+  parseSearchIndex,
+  searchConfigFromEnv,
+} from './judge-config.js';
+import { withoutUndefined } from './judge-transport.js';
+import { FriscoError } from './errors.js';
+import { TNorm, parseTNorm } from './fuzzy.js';
+
+export type FriscoConfig = {
+  threshold: number;
+  // Unlimited when absent
+  maxDepth?: number;
+  format: OutputFormat;
+  fuzzy: TNorm | null;
+  judge: JudgeConfig;
+  search: SearchConfig;
+};
+
+// The settings a config file or the command line may give
+export type ConfigSettings = {
+  threshold?: number;
+  maxDepth?: number;
+  format?: OutputFormat;
+  fuzzy?: TNorm;
+  judge?: Partial<JudgeConfig>;
+  search?: Partial<SearchConfig>;
+};
+
+export const CONFIG_FILE = 'frisco.config.json';
+export const DEFAULT_THRESHOLD = 0.7;
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+// --flag value or --flag=value; each flag sets one setting
+const FLAGS: Record<string, (settings: ConfigSettings, value: string) => void> = {
+  '--threshold': (settings, value) => (settings.threshold = parseThreshold(parseNumber(value, '--threshold'), '--threshold')),
+  '--max-depth': (settings, value) => (settings.maxDepth = parseInteger(parseNumber(value, '--max-depth'), '--max-depth', 1)),
+  '--format': (settings, value) => (settings.format = parseFormat(value)),
+  '--judge-backend': (settings, value) => (settings.judge = { ...settings.judge, backend: parseBackendKind(value) }),
+  '--judge-endpoint': (settings, value) => (settings.judge = { ...settings.judge, endpoint: value }),
+  '--cache': (settings, value) => (settings.judge = { ...settings.judge, cache: parseCacheMode(value) }),
+};
+
+export type CommandLine = {
+  settings: ConfigSettings;
+  // --config: the config file to use instead of searching for one
+  configFile?: string;
+  // The arguments that are not flags of ours
+  rest: string[];
+};
+
+export function parseCommandLine(args: string[]): CommandLine {
+  const settings: ConfigSettings = {};
+  let configFile: string | undefined;
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split(/=(.*)/s);
+    if (flag !== '--config' && !FLAGS[flag]) {
+      rest.push(args[i]);
+      continue;
+    }
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new FriscoError(`${flag} needs a value`);
+    }
+    if (flag === '--config') {
+      configFile = value;
+    } else {
+      FLAGS[flag](settings, value);
+    }
+  }
+  return { settings, configFile, rest };
+}
+
+// The nearest frisco.config.json, or package.json with a "frisco" section,
+// from `dir` upwards
+export function findConfigFile(dir: string): string | null {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const configFile = path.join(current, CONFIG_FILE);
+    if (fs.existsSync(configFile)) return configFile;
+    const packageFile = path.join(current, 'package.json');
+    if (fs.existsSync(packageFile) && hasFriscoSection(packageFile)) return packageFile;
+    if (path.dirname(current) === current) return null;
+  }
+}
+
+// Files named in the configuration are relative to it
+export function readConfigFile(file: string): ConfigSettings {
+  const json = readJSON(file);
+  const settings = validateSettings(path.basename(file) === 'package.json' ? json.frisco : json, file);
+  for (const key of ['table', 'cacheFile'] as const) {
+    const name = settings.judge?.[key];
+    if (name) settings.judge![key] = path.resolve(path.dirname(file), name);
+  }
+  return settings;
+}
+
+// The configuration of a run of the program in `dir` (the working directory
+// for the REPL)
+export function loadConfig(dir: string, commandLine: CommandLine = { settings: {}, rest: [] }, env: NodeJS.ProcessEnv = process.env): FriscoConfig {
+  const configFile = commandLine.configFile ?? findConfigFile(dir);
+  const file = configFile ? readConfigFile(configFile) : {};
+  const flags = commandLine.settings;
+  return {
+    threshold: flags.threshold ?? file.threshold ?? DEFAULT_THRESHOLD,
+    maxDepth: flags.maxDepth ?? file.maxDepth,
+    format: flags.format ?? file.format ?? 'text',
+    fuzzy: fuzzyLogicFromEnv(env, file.fuzzy ?? null),
+    judge: { ...judgeConfigFromEnv(env, file.judge), ...withoutUndefined(flags.judge ?? {}) },
+    search: searchConfigFromEnv(env, file.search),
+  };
+}
+
+// Apply everything but the threshold and the judge, which the Executor is constructed with
+export function configureExecutor(executor: Executor, config: FriscoConfig): void {
+  executor.setSearchIndex(createSearchIndex(config.search), config.search.limit);
+  if (config.judge.onFailure) executor.setJudgeFailurePolicy(config.judge.onFailure);
+  executor.setFuzzyLogic(config.fuzzy);
+  if (config.maxDepth !== undefined) executor.setMaxDepth(config.maxDepth);
+  executor.setOutputFormat(config.format);
+}
+
+function validateSettings(settings: unknown, file: string): ConfigSettings {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    throw new FriscoError(`${file}: the configuration must be a JSON object`);
+  }
+  const { threshold, maxDepth, format, fuzzy, judge, search } = settings as Record<string, unknown>;
+  const valid: ConfigSettings = {};
+  try {
+    if (threshold !== undefined) valid.threshold = parseThreshold(threshold, 'threshold');
+    if (maxDepth !== undefined) valid.maxDepth = parseInteger(maxDepth, 'maxDepth', 1);
+    if (format !== undefined) valid.format = parseFormat(String(format));
+    if (fuzzy !== undefined) valid.fuzzy = parseTNorm(String(fuzzy));
+    if (judge !== undefined) valid.judge = validateJudge(judge);
+    if (search !== undefined) valid.search = validateSearch(search);
+  } catch (error) {
+    throw error instanceof FriscoError ? new FriscoError(`${file}: ${error.reason}`) : error;
+  }
+  return valid;
+}
+
+function validateJudge(judge: unknown): Partial<JudgeConfig> {
+  const settings = asObject(judge, 'judge');
+  const valid: Partial<JudgeConfig> = {};
+  for (const key of ['endpoint', 'model', 'apiKey', 'table', 'cacheFile'] as const) {
+    if (settings[key] !== undefined) valid[key] = String(settings[key]);
+  }
+  if (settings.backend !== undefined) valid.backend = parseBackendKind(String(settings.backend));
+  if (settings.cache !== undefined) valid.cache = parseCacheMode(String(settings.cache));
+  if (settings.onFailure !== undefined) valid.onFailure = parseFailurePolicy(String(settings.onFailure));
+  if (settings.timeoutMs !== undefined) valid.timeoutMs = parseInteger(settings.timeoutMs, 'judge.timeoutMs', 1);
+  if (settings.retries !== undefined) valid.retries = parseInteger(settings.retries, 'judge.retries', 0);
+  if (settings.concurrency !== undefined) valid.concurrency = parseInteger(settings.concurrency, 'judge.concurrency', 1);
+  return valid;
+}
+
+function validateSearch(search: unknown): Partial<SearchConfig> {
+  const settings = asObject(search, 'search');
+  const valid: Partial<SearchConfig> = {};
+  if (settings.index !== undefined) valid.index = parseSearchIndex(String(settings.index));
+  if (settings.limit !== undefined) valid.limit = parseInteger(settings.limit, 'search.limit', 1);
+  if (settings.model !== undefined) valid.model = String(settings.model);
+  return valid;
+}
+
+function parseNumber(value: string, name: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || Number.isNaN(number)) {
+    throw new FriscoError(`${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseThreshold(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    throw new FriscoError(`${name} must be a number between 0 and 1, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function parseInteger(value: unknown, name: string, min: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new FriscoError(`${name} must be an integer of at least ${min}, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function parseFormat(value: string): OutputFormat {
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new FriscoError(`Unknown output format "${value}" (expected one of ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return value as OutputFormat;
+}
+
+function asObject(value: unknown, name: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new FriscoError(`${name} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+// A package.json that does not parse is someone else's problem
+function hasFriscoSection(packageFile: string): boolean {
+  try {
+    return JSON.parse(fs.readFileSync(packageFile, 'utf-8')).frisco !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+function readJSON(file: string): Record<string, unknown> {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new FriscoError(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
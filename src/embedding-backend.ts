@@ -0,0 +1,82 @@
+// Local judge backend comparing sentence embeddings (fastembed) by cosine similarity.
+// It needs no server, but it can only approximate the LLM operations:
+// attribute possession becomes "characteristic and concrete are close", and
+// differentia is not supported.
+
+import { JudgeBackend, JudgeRequest, JudgeResponse } from './judge-backend.js';
+import { cosine } from './semantic-search.js';
+
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+type EmbeddingBackendOptions = {
+  // fastembed model name, e.g. "fast-bge-small-en-v1.5"
+  model?: string;
+  // Cosine similarity at which has_attr/share_attr count a characteristic as present
+  attributeThreshold?: number;
+  // Replace fastembed, e.g. with a remote embedding service
+  embed?: EmbedFunction;
+};
+
+export class EmbeddingBackend implements JudgeBackend {
+  private readonly attributeThreshold: number;
+  private readonly modelName: string | undefined;
+  private embedFn: EmbedFunction | null;
+  private readonly cache = new Map<string, number[]>();
+
+  constructor(options: EmbeddingBackendOptions = {}) {
+    this.attributeThreshold = options.attributeThreshold ?? 0.5;
+    this.modelName = options.model;
+    this.embedFn = options.embed ?? null;
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const { operation, args } = request;
+    switch (operation) {
+      case 'conceptual_identity':
+        return { similarity: await this.similarity(args[0], args[1]) };
+      case 'similar_attr':
+        return { similarity: await this.similarity(`${args[0]} of ${args[1]}`, `${args[0]} of ${args[2]}`) };
+      case 'has_attr':
+        return { result: (await this.similarity(args[0], args[1])) >= this.attributeThreshold };
+      case 'share_attr': {
+        const first = await this.similarity(args[0], args[1]);
+        const second = await this.similarity(args[0], args[2]);
+        return { result: Math.min(first, second) >= this.attributeThreshold };
+      }
+      case 'differentia':
+        return null;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const missing = texts.filter((text) => !this.cache.has(text));
+    if (missing.length > 0) {
+      const embed = await this.getEmbedFunction();
+      const vectors = await embed(missing);
+      missing.forEach((text, i) => this.cache.set(text, vectors[i]));
+    }
+    return texts.map((text) => this.cache.get(text)!);
+  }
+
+  private async similarity(a: string, b: string): Promise<number> {
+    const [va, vb] = await this.embed([a, b]);
+    return Math.max(0, Math.min(1, cosine(va, vb)));
+  }
+
+  private async getEmbedFunction(): Promise<EmbedFunction> {
+    if (!this.embedFn) {
+      const { FlagEmbedding, EmbeddingModel } = await import('fastembed');
+      const model = await FlagEmbedding.init({
+        model: (this.modelName ?? EmbeddingModel.BGESmallENV15) as typeof EmbeddingModel.BGESmallENV15,
+      });
+      this.embedFn = async (texts) => {
+        const vectors: number[][] = [];
+        for await (const batch of model.embed(texts)) {
+          vectors.push(...batch.map((v) => Array.from(v)));
+        }
+        return vectors;
+      };
+    }
+    return this.embedFn;
+  }
+}
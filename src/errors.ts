@@ -0,0 +1,120 @@
+// Error hierarchy and diagnostics. Every error Frisco raises on purpose is a
+// FriscoError; when it is known where in the source the problem lies, `span`
+// says so and formatDiagnostic can show the offending line.
+
+import { SourceSpan } from './ast.js';
+
+export class FriscoError extends Error {
+  // The message without the location suffix
+  readonly reason: string;
+  span: SourceSpan | undefined;
+
+  constructor(reason: string, span?: SourceSpan) {
+    super(reason);
+    this.name = 'FriscoError';
+    this.reason = reason;
+    this.span = undefined;
+    this.locate(span);
+  }
+
+  // Attach a location unless the error already has a more precise one
+  locate(span: SourceSpan | undefined): this {
+    if (span && !this.span) {
+      this.span = span;
+      this.message = `${this.reason} at line ${span.start.line}, column ${span.start.column}`;
+    }
+    return this;
+  }
+}
+
+// Malformed source, raised by the lexer and parser
+export class FriscoSyntaxError extends FriscoError {
+  constructor(reason: string, span?: SourceSpan) {
+    super(reason, span);
+    this.name = 'FriscoSyntaxError';
+  }
+}
+
+// A goal that cannot be evaluated: instantiation errors, non-callable goals,
+// bad arguments to builtins
+export class FriscoRuntimeError extends FriscoError {
+  constructor(reason: string, span?: SourceSpan) {
+    super(reason, span);
+    this.name = 'FriscoRuntimeError';
+  }
+}
+
+// The judge could not be consulted or gave no usable answer
+export class FriscoJudgeError extends FriscoError {
+  constructor(reason: string, span?: SourceSpan) {
+    super(reason, span);
+    this.name = 'FriscoJudgeError';
+  }
+}
+
+// A query stopped through its AbortSignal
+export class FriscoCancelledError extends FriscoError {
+  constructor(reason = 'Query cancelled', span?: SourceSpan) {
+    super(reason, span);
+    this.name = 'FriscoCancelledError';
+  }
+}
+
+// Give an error raised while evaluating the node at `span` that location;
+// errors not raised by Frisco itself become runtime errors
+export function locateError(error: unknown, span: SourceSpan | undefined): unknown {
+  if (error instanceof FriscoError) {
+    return error.locate(span);
+  }
+  if (error instanceof Error) {
+    return new FriscoRuntimeError(error.message, span);
+  }
+  return error;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  FriscoSyntaxError: 'syntax error',
+  FriscoRuntimeError: 'runtime error',
+  FriscoJudgeError: 'judge error',
+  FriscoCancelledError: 'cancelled',
+};
+
+// Render an error with the source line it points at, taken from the span or
+// else from `source`:
+//
+//   syntax error: Expected RPAREN but got DOT
+//     --> socrates.frisco:3:19
+//      |
+//    3 | mortal(x) :- man(x.
+//      |                   ^
+export function formatDiagnostic(error: unknown, source?: string, file?: string): string {
+  if (!(error instanceof FriscoError)) {
+    return `error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return formatCodeFrame(`${KIND_LABELS[error.name] ?? 'error'}: ${error.reason}`, error.span, source, file);
+}
+
+// `header`, then the location and source line of `span` when there is one
+export function formatCodeFrame(header: string, span: SourceSpan | undefined, source?: string, file?: string): string {
+  if (!span) {
+    return header;
+  }
+
+  const location = `${span.source?.file ?? file ?? '<input>'}:${span.start.line}:${span.start.column}`;
+  const lineText = (span.source?.text ?? source)?.split('\n')[span.start.line - 1];
+  if (lineText === undefined) {
+    return `${header}\n  --> ${location}`;
+  }
+
+  const gutter = String(span.start.line).length;
+  const endColumn = span.end.line === span.start.line ? span.end.column : lineText.length + 1;
+  const width = Math.max(1, endColumn - span.start.column);
+  const pad = ' '.repeat(gutter);
+  return [
+    header,
+    `${pad} --> ${location}`,
+    `${pad} |`,
+    `${span.start.line} | ${lineText.replace(/\r$/, '')}`,
+    `${pad} | ${lineText.slice(0, span.start.column - 1).replace(/[^\t]/g, ' ')}${'^'.repeat(width)}`,
+  ].join('\n');
+}
@@ -1,85 +1,219 @@
 import * as AST from './ast.js';
 import { SemanticMatcher } from './semantic-matcher.js';
+import { JudgeBackend, JudgeFailurePolicy } from './judge-backend.js';
 import { runBuiltin } from './builtins';
+import {
+  KnowledgeBase,
+  ConsultOptions,
+  createKnowledgeBase,
+  consultProgram,
+  abolishPredicate,
+  fieldValue,
+} from './knowledge-base.js';
+import { evaluateArithmetic, compareNumbers, isArithmeticOperator, formatArithmetic } from './arithmetic.js';
+import { Judgment, ProofNode, formatProof } from './proof.js';
+import { FriscoValue, Serializer } from './serializer.js';
+import { Tracer, formatTraceEvent } from './tracer.js';
+import { FriscoCancelledError, FriscoRuntimeError, locateError } from './errors.js';
+import { TNorm, conjoin, disjoin, negate, formatConfidence } from './fuzzy.js';
+import { DEFAULT_SEARCH_LIMIT, LexicalIndex, SearchIndex, searchValues } from './semantic-search.js';
 
 type Substitution = Map<string, AST.Term>;
 
-type KnowledgeBase = {
-  concepts: Map<string, AST.ConceptDeclaration>;
-  entities: Map<string, AST.EntityDeclaration>;
-  rules: AST.RuleDeclaration[];
-};
+// A solution together with the derivation that produced it (empty unless
+// proving) and, under fuzzy evaluation, the degree to which it holds (1 when absent)
+export type Solution = { subst: Substitution; proof: ProofNode[]; confidence?: number };
 
+// The platform the engine runs on supplies its I/O, its judge and the files
+// consult/1 can load (see node-host.ts and browser-host.ts)
 export type OutputHandler = (message: string) => void;
 export type InputHandler = (prompt?: string) => Promise<string>;
+export interface FileSystem {
+  readFile(path: string): Promise<string>;
+}
+
+// How query results are printed: True/False and Bindings: lines, or one JSON
+// object per query ({ query, answer, solutions }, with an output array of the
+// lines it printed)
+export type OutputFormat = 'text' | 'json';
 
 const CUT_MARKER = '__CUT__';
+const NO_PROOF: ProofNode[] = [];
+
+// Where a goal is solved: how deeply rule calls nest there (1 for the goals of
+// a query) and the signal that cancels the query it belongs to
+export type GoalContext = { depth: number; signal?: AbortSignal };
+
+const TOP_LEVEL: GoalContext = { depth: 1 };
+
+// The unbound variable of a semantic match that searches the knowledge base,
+// and the field of it being compared (x.description =~= "...")
+type SearchTarget = { side: 'left' | 'right'; variable: AST.Variable; field: string | null };
 
 export class Executor {
-  private kb: KnowledgeBase = {
-    concepts: new Map(),
-    entities: new Map(),
-    rules: [],
-  };
+  private kb: KnowledgeBase = createKnowledgeBase();
   private globalBindings: Substitution = new Map();
   private matcher: SemanticMatcher;
   private outputHandler: OutputHandler;
   private inputHandler: InputHandler;
+  private fileSystem: FileSystem | null;
+  // Text printed by print/1 that is still waiting for the end of its line
+  private pendingOutput = '';
+  // In the json format: the lines printed by the running statement, reported
+  // in its JSON object so that standard output stays one object per line
+  private capturedOutput: string[] | null = null;
+  // Proof trees are only built while a query is being explained
+  private proving = false;
+  private judgmentLog: Judgment[] | null = null;
+  private tracer: Tracer;
+  // Shortlists the candidates of a semantic search before they are judged
+  private searchIndex: SearchIndex = new LexicalIndex();
+  private searchLimit = DEFAULT_SEARCH_LIMIT;
+  // Judgments left unknown by the judge failure policy, ever
+  private unknownJudgments = 0;
+  // Set for fuzzy evaluation (see fuzzy.ts)
+  private tnorm: TNorm | null = null;
+  // Deepest nesting of rule calls a query may reach
+  private maxDepth = Infinity;
+  private outputFormat: OutputFormat = 'text';
+  // Goals registered by initialization/1 while the current program loads
+  private initializationGoals: AST.Condition[] = [];
 
-  constructor(threshold = 0.7, outputHandler?: OutputHandler, inputHandler?: InputHandler) {
-    this.matcher = new SemanticMatcher(threshold);
+  constructor(
+    threshold = 0.7,
+    outputHandler?: OutputHandler,
+    inputHandler?: InputHandler,
+    judge?: JudgeBackend,
+    fileSystem?: FileSystem
+  ) {
+    this.matcher = new SemanticMatcher(threshold, judge);
+    this.matcher.onJudgment = (judgment) => {
+      if (judgment.unknown) this.unknownJudgments++;
+      this.judgmentLog?.push(judgment);
+    };
     this.outputHandler = outputHandler || ((msg) => console.log(msg));
-    this.inputHandler = inputHandler || this.defaultInputHandler;
-  }
-
-  private async defaultInputHandler(prompt?: string): Promise<string> {
-    const readline = await import('readline');
-    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-    return new Promise((resolve) => {
-      rl.question(prompt || '', (answer) => {
-        rl.close();
-        resolve(answer);
-      });
+    this.inputHandler = inputHandler || noInput;
+    this.fileSystem = fileSystem ?? null;
+    this.tracer = new Tracer(async (event) => {
+      this.outputHandler(formatTraceEvent(event));
+      return 'creep';
     });
   }
 
+  // Run a program against a fresh knowledge base
   async execute(program: AST.Program): Promise<void> {
-    this.kb = { concepts: new Map(), entities: new Map(), rules: [] };
-    this.globalBindings = new Map();
+    this.reset();
+    await this.consult(program);
+  }
 
-    for (const statement of program.statements) {
-      switch (statement.type) {
-        case 'ConceptDeclaration':
-          this.kb.concepts.set(statement.name, statement);
-          break;
-        case 'EntityDeclaration':
-          this.kb.entities.set(statement.name, statement);
-          break;
-        case 'RuleDeclaration':
-          this.kb.rules.push(statement);
-          break;
-        case 'Assignment': {
-          this.globalBindings.set(statement.variable, { type: 'StringLiteral', value: statement.value });
-          break;
+  // Merge a program into the live knowledge base, then run its queries and
+  // directives in source order, and finally the goals its directives passed to
+  // initialization/1. Aborting `signal` cancels the running query and its judge requests.
+  async consult(program: AST.Program, options: ConsultOptions = {}, signal?: AbortSignal): Promise<void> {
+    consultProgram(this.kb, this.globalBindings, program, options);
+
+    const outerGoals = this.initializationGoals;
+    this.initializationGoals = [];
+    try {
+      for (const statement of program.statements) {
+        if (statement.type === 'Query') {
+          await this.executeQuery(statement, false, signal);
+        } else if (statement.type === 'Directive') {
+          await this.runDirective(statement.body, statement.span, signal);
         }
       }
+      for (const goal of this.initializationGoals) {
+        await this.runDirective([goal], goal.span, signal);
+      }
+    } finally {
+      this.initializationGoals = outerGoals;
     }
+  }
+
+  reset(): void {
+    this.kb = createKnowledgeBase();
+    this.globalBindings = new Map();
+  }
+
+  abolish(name: string, arity?: number): number {
+    return abolishPredicate(this.kb, name, arity);
+  }
+
+  // Run a query and print the derivation of each solution
+  async explainQuery(query: AST.Query, signal?: AbortSignal): Promise<void> {
+    await this.executeQuery(query, true, signal);
+  }
 
-    for (const statement of program.statements) {
-      if (statement.type === 'Query') {
-        await this.executeQuery(statement);
+  // Solve the goals of a directive once, showing no bindings; a directive that
+  // fails is an error. In the json format, what it prints is reported as
+  // { directive, output }.
+  private async runDirective(goals: AST.Condition[], span: AST.SourceSpan | undefined, signal?: AbortSignal): Promise<void> {
+    const solve = async () => {
+      const solutions = this.solveGoals(goals, new Map(this.globalBindings), { depth: 1, signal });
+      const first = await solutions.next();
+      await solutions.return(undefined);
+      if (first.done) {
+        throw new FriscoRuntimeError(`Directive failed: ${Serializer.goalsToSource(goals)}`);
       }
+    };
+    try {
+      if (this.outputFormat === 'json') {
+        const output = await this.captureOutput(solve);
+        if (output.length > 0) this.outputHandler(JSON.stringify({ directive: Serializer.goalsToSource(goals), output }));
+      } else {
+        await solve();
+      }
+    } catch (error) {
+      throw locateError(error, span);
     }
   }
 
-  private async executeQuery(query: AST.Query): Promise<void> {
+  private async executeQuery(query: AST.Query, explain = false, signal?: AbortSignal): Promise<void> {
     const initialSubst = new Map(this.globalBindings);
     let solutionCount = 0;
+    const unknownBefore = this.unknownJudgments;
+    // Under fuzzy evaluation: the degree to which any solution holds
+    let confidence = 0;
+    const json = this.outputFormat === 'json';
+    const variables = this.collectVariables(query.body);
+    const results: Record<string, FriscoValue>[] = [];
+
+    const context: GoalContext = { depth: 1, signal };
+    const solve = async () => {
+      const solutions = explain ? this.prove(query.body, initialSubst, context) : this.solveGoals(query.body, initialSubst, context);
+      for await (const solution of solutions) {
+        solutionCount++;
+        this.flushOutput();
+        if (this.tnorm) confidence = disjoin(this.tnorm, confidence, solution.confidence ?? 1);
+        // Under fuzzy evaluation a solution below the threshold is not an answer
+        if (this.tnorm && (solution.confidence ?? 1) < this.matcher.getThreshold()) continue;
+        if (json) {
+          results.push(this.bindingValues(variables, solution.subst));
+        } else {
+          this.outputSolution(solution.subst, query.body, solution.confidence);
+        }
+        if (explain) this.outputProof(solution);
+      }
+      this.flushOutput();
+    };
 
-    for await (const solution of this.evaluateGoals(query.body, initialSubst)) {
-      solutionCount++;
-      this.outputSolution(solution, query.body);
+    if (json) {
+      const output = await this.captureOutput(solve);
+      const answer =
+        solutionCount === 0
+          ? this.unknownJudgments > unknownBefore ? 'Unknown' : 'False'
+          : this.tnorm && confidence < this.matcher.getThreshold() ? 'False' : 'True';
+      const result = {
+        query: Serializer.goalsToSource(query.body),
+        answer,
+        ...(this.tnorm ? { confidence: Number(formatConfidence(confidence)) } : {}),
+        solutions: results,
+        ...(output.length > 0 ? { output } : {}),
+      };
+      this.outputHandler(JSON.stringify(result));
+      return;
     }
+    await solve();
 
     const hasSideEffects = query.body.some(condition => {
       if (condition.type === 'PredicateCall') {
@@ -90,106 +224,229 @@ export class Executor {
 
     if (!hasSideEffects) {
       if (solutionCount === 0) {
-        this.outputHandler('False');
+        this.outputHandler(this.unknownJudgments > unknownBefore ? 'Unknown' : 'False');
+      } else if (this.tnorm) {
+        const answer = confidence >= this.matcher.getThreshold() ? 'True' : 'False';
+        this.outputHandler(`${answer} (${formatConfidence(confidence)})`);
       } else {
         this.outputHandler('True');
       }
     }
   }
 
-  public async *evaluateGoals(goals: AST.Condition[], subst: Substitution): AsyncGenerator<Substitution> {
+  // Aborting `signal` cancels the search and its judge requests
+  public async *evaluateGoals(goals: AST.Condition[], subst: Substitution, signal?: AbortSignal): AsyncGenerator<Substitution> {
+    for await (const solution of this.solveGoals(goals, subst, { depth: 1, signal })) {
+      yield solution.subst;
+    }
+  }
+
+  // Goals that are arguments of a builtin such as findall/3, solved where the
+  // builtin was called so that the maximum depth still applies
+  public async *evaluateNestedGoals(goals: AST.Condition[], subst: Substitution, context: GoalContext): AsyncGenerator<Substitution> {
+    for await (const solution of this.solveGoals(goals, subst, context)) {
+      yield solution.subst;
+    }
+  }
+
+  // Like evaluateGoals, but every solution carries its proof tree
+  public async *prove(goals: AST.Condition[], subst: Substitution, context: GoalContext = TOP_LEVEL): AsyncGenerator<Solution> {
+    const wasProving = this.proving;
+    this.proving = true;
+    try {
+      yield* this.solveGoals(goals, subst, context);
+    } finally {
+      this.proving = wasProving;
+    }
+  }
+
+  private async *solveGoals(goals: AST.Condition[], subst: Substitution, context: GoalContext = TOP_LEVEL): AsyncGenerator<Solution> {
+    if (context.signal?.aborted) {
+      throw new FriscoCancelledError();
+    }
     if (goals.length === 0) {
-      yield subst;
+      yield { subst, proof: NO_PROOF };
       return;
     }
 
     const [first, ...rest] = goals;
-    for await (const nextSubst of this.evaluateCondition(first, subst)) {
-      if (this.hasCut(nextSubst)) {
-        yield* this.evaluateGoals(rest, nextSubst);
+    for await (const firstSolution of this.solveCondition(first, subst, context)) {
+      for await (const restSolution of this.solveGoals(rest, firstSolution.subst, context)) {
+        const confidence = this.conjoin(firstSolution.confidence, restSolution.confidence);
+        if (confidence === 0) continue;
+        yield { subst: restSolution.subst, proof: this.joinProofs(firstSolution.proof, restSolution.proof), confidence };
+      }
+      if (this.hasCut(firstSolution.subst)) return;
+    }
+  }
+
+  private async *solveCondition(condition: AST.Condition, subst: Substitution, context: GoalContext): AsyncGenerator<Solution> {
+    const solutions = this.solveUntracedCondition(condition, subst, context);
+    const traced = ['PredicateCall', 'SemanticMatch', 'Equality', 'Comparison', 'Negation'].includes(condition.type);
+    try {
+      if (traced && this.tracer.isActive()) {
+        yield* this.traceGoal(condition, subst, context.depth, solutions);
+      } else {
+        yield* solutions;
+      }
+    } catch (error) {
+      // Point errors at the innermost goal that raised them
+      throw locateError(error, condition.span);
+    }
+  }
+
+  // Report the four ports of a goal around its solutions
+  private async *traceGoal(
+    condition: AST.Condition,
+    subst: Substitution,
+    depth: number,
+    solutions: AsyncGenerator<Solution>
+  ): AsyncGenerator<Solution> {
+    const predicate = condition.type === 'PredicateCall' ? { name: condition.name, arity: condition.arguments.length } : undefined;
+    await this.tracer.port('call', depth, this.renderGoal(condition, subst), predicate);
+    while (true) {
+      const next = await solutions.next();
+      if (next.done) {
+        await this.tracer.port('fail', depth, this.renderGoal(condition, subst), predicate);
         return;
       }
-      yield* this.evaluateGoals(rest, nextSubst);
+      await this.tracer.port('exit', depth, this.renderGoal(condition, next.value.subst), predicate);
+      yield next.value;
+      await this.tracer.port('redo', depth, this.renderGoal(condition, next.value.subst), predicate);
     }
   }
 
-  private async *evaluateCondition(condition: AST.Condition, subst: Substitution): AsyncGenerator<Substitution> {
+  private async *solveUntracedCondition(condition: AST.Condition, subst: Substitution, context: GoalContext): AsyncGenerator<Solution> {
+    const { signal } = context;
     switch (condition.type) {
       case 'PredicateCall':
-        yield* this.evaluatePredicate(condition, subst);
+        yield* this.solvePredicate(condition, subst, context);
         return;
       case 'SemanticMatch': {
-        const success = await this.evaluateSemanticMatch(condition, subst);
-        if (success) yield subst;
+        const target = this.searchTarget(condition, subst);
+        if (target) {
+          yield* this.searchSemanticMatch(condition, target, subst, signal);
+          return;
+        }
+        const judgments: Judgment[] = [];
+        const threshold = condition.threshold ? this.evaluateThreshold(condition.threshold, subst) : this.matcher.getThreshold();
+        if (this.tnorm) {
+          const score = await this.withJudgmentLog(judgments, () => this.scoreSemanticMatch(condition, subst, signal));
+          if (score > 0 && (!condition.threshold || score >= threshold)) {
+            yield { subst, proof: this.leaf({ kind: 'semantic', goal: condition, threshold, judgments }), confidence: score };
+          }
+          return;
+        }
+        const success = await this.withJudgmentLog(judgments, () => this.evaluateSemanticMatch(condition, subst, signal));
+        if (success) {
+          yield { subst, proof: this.leaf({ kind: 'semantic', goal: condition, threshold, judgments }) };
+        }
         return;
       }
       case 'Equality': {
         if (condition.operator === '=') {
           const unified = this.unify(condition.left, condition.right, subst);
-          if (unified) yield unified;
+          if (unified) yield { subst: unified, proof: this.leaf({ kind: 'unification', goal: condition }) };
         } else {
           const left = this.deref(condition.left, subst);
           const right = this.deref(condition.right, subst);
-          if (this.termsEqual(left, right)) yield subst;
+          if (this.termsEqual(left, right)) yield { subst, proof: this.leaf({ kind: 'comparison', goal: condition }) };
         }
         return;
       }
+      case 'Comparison': {
+        const left = this.evaluateArithmetic(condition.left, subst);
+        const right = this.evaluateArithmetic(condition.right, subst);
+        if (compareNumbers(condition.operator, left, right)) yield { subst, proof: this.leaf({ kind: 'comparison', goal: condition }) };
+        return;
+      }
       case 'Negation': {
+        const unknownBefore = this.unknownJudgments;
+        if (this.tnorm) {
+          // The complement of the degree to which any solution of the goal holds
+          let inner = 0;
+          for await (const solution of this.solveGoals(condition.goals, subst, context)) {
+            inner = disjoin(this.tnorm, inner, solution.confidence ?? 1);
+            if (inner === 1) break;
+          }
+          const confidence = negate(inner);
+          if (confidence > 0 && this.unknownJudgments === unknownBefore) {
+            yield { subst, proof: this.leaf({ kind: 'negation', goal: condition }), confidence };
+          }
+          return;
+        }
         let succeeded = false;
-        for await (const _ of this.evaluateGoals(condition.goals, subst)) {
+        for await (const _ of this.solveGoals(condition.goals, subst, context)) {
           succeeded = true;
           break;
         }
-        if (!succeeded) yield subst;
+        // A goal that failed only for want of an answer is not known to be false
+        if (!succeeded && this.unknownJudgments === unknownBefore) yield { subst, proof: this.leaf({ kind: 'negation', goal: condition }) };
         return;
       }
       case 'Disjunction': {
-        for await (const leftSubst of this.evaluateGoals(condition.left, subst)) {
-          yield leftSubst;
-          if (this.hasCut(leftSubst)) return;
+        for await (const left of this.solveGoals(condition.left, subst, context)) {
+          yield left;
+          if (this.hasCut(left.subst)) return;
         }
-        for await (const rightSubst of this.evaluateGoals(condition.right, subst)) {
-          yield rightSubst;
-          if (this.hasCut(rightSubst)) return;
+        for await (const right of this.solveGoals(condition.right, subst, context)) {
+          yield right;
+          if (this.hasCut(right.subst)) return;
         }
         return;
       }
       case 'IfThenElse': {
         let thenSatisfied = false;
-        for await (const condSubst of this.evaluateGoals(condition.condition, subst)) {
+        for await (const cond of this.solveGoals(condition.condition, subst, context)) {
           thenSatisfied = true;
-          for await (const thenSubst of this.evaluateGoals(condition.thenBranch, condSubst)) {
-            yield thenSubst;
-            if (this.hasCut(thenSubst)) return;
+          for await (const then of this.solveGoals(condition.thenBranch, cond.subst, context)) {
+            const confidence = this.conjoin(cond.confidence, then.confidence);
+            if (confidence === 0) continue;
+            yield { subst: then.subst, proof: this.joinProofs(cond.proof, then.proof), confidence };
+            if (this.hasCut(then.subst)) return;
           }
           return;
         }
         if (!thenSatisfied) {
-          for await (const elseSubst of this.evaluateGoals(condition.elseBranch, subst)) {
-            yield elseSubst;
-            if (this.hasCut(elseSubst)) return;
+          for await (const otherwise of this.solveGoals(condition.elseBranch, subst, context)) {
+            yield otherwise;
+            if (this.hasCut(otherwise.subst)) return;
           }
         }
         return;
       }
       case 'Cut': {
-        yield this.markCut(subst);
+        yield { subst: this.markCut(subst), proof: NO_PROOF };
         return;
       }
     }
   }
 
-  private async *evaluatePredicate(call: AST.PredicateCall, subst: Substitution): AsyncGenerator<Substitution> {
-    const builtinResult = runBuiltin(call.name, call.arguments, subst, this);
+  private async *solvePredicate(call: AST.PredicateCall, subst: Substitution, context: GoalContext): AsyncGenerator<Solution> {
+    const builtinResult = runBuiltin(call.name, call.arguments, subst, this, context);
     if (builtinResult) {
-      yield* builtinResult;
-      return;
+      if (!this.proving) {
+        for await (const result of builtinResult) yield { subst: result, proof: NO_PROOF };
+        return;
+      }
+      // Attribute the judgments made while producing each solution to this call
+      while (true) {
+        const judgments: Judgment[] = [];
+        const next = await this.withJudgmentLog(judgments, () => builtinResult.next());
+        if (next.done) return;
+        yield { subst: next.value, proof: [{ kind: 'builtin', goal: call, judgments }] };
+      }
     }
 
-    for (const rule of this.kb.rules) {
-      if (rule.head.name !== call.name) continue;
-      if (rule.head.parameters.length !== call.arguments.length) continue;
+    if (context.depth > this.maxDepth) {
+      throw new FriscoRuntimeError(`Maximum depth of ${this.maxDepth} exceeded calling ${call.name}/${call.arguments.length}`);
+    }
 
+    // Snapshot the clauses so assert/retract during the call do not affect it
+    const clauses = this.kb.rules.filter(
+      (rule) => rule.head.name === call.name && rule.head.parameters.length === call.arguments.length
+    );
+    for (const rule of clauses) {
       const freshRule = this.refreshRuleVariables(rule);
       let currentSubst: Substitution | null = new Map(subst);
       for (let i = 0; i < call.arguments.length; i++) {
@@ -198,14 +455,42 @@ export class Executor {
       }
       if (!currentSubst) continue;
 
-      for await (const result of this.evaluateGoals(freshRule.body, currentSubst)) {
-        yield result;
-        if (this.hasCut(result)) return;
+      for await (const result of this.solveGoals(freshRule.body, currentSubst, { ...context, depth: context.depth + 1 })) {
+        yield { subst: result.subst, proof: this.leaf({ kind: 'rule', goal: call, clause: rule, children: result.proof }), confidence: result.confidence };
+        if (this.hasCut(result.subst)) return;
       }
     }
   }
 
-  private refreshRuleVariables(rule: AST.RuleDeclaration): AST.RuleDeclaration {
+  // Confidence of a conjunction; undefined (certain) outside fuzzy evaluation
+  private conjoin(a: number | undefined, b: number | undefined): number | undefined {
+    if (!this.tnorm || (a === undefined && b === undefined)) return undefined;
+    return conjoin(this.tnorm, a ?? 1, b ?? 1);
+  }
+
+  private leaf(node: ProofNode): ProofNode[] {
+    return this.proving ? [node] : NO_PROOF;
+  }
+
+  private joinProofs(first: ProofNode[], rest: ProofNode[]): ProofNode[] {
+    if (first.length === 0) return rest;
+    if (rest.length === 0) return first;
+    return [...first, ...rest];
+  }
+
+  // Collect the judgments made during `run`; they also count for any enclosing log
+  private async withJudgmentLog<T>(log: Judgment[], run: () => Promise<T>): Promise<T> {
+    const outer = this.judgmentLog;
+    this.judgmentLog = this.proving ? log : outer;
+    try {
+      return await run();
+    } finally {
+      this.judgmentLog = outer;
+      if (this.proving) outer?.push(...log);
+    }
+  }
+
+  public refreshRuleVariables(rule: AST.RuleDeclaration): AST.RuleDeclaration {
     const suffix = `__${Math.random().toString(36).slice(2)}`;
     const renameTerm = (term: AST.Term): AST.Term => {
       const t = this.deref(term, new Map());
@@ -216,28 +501,42 @@ export class Executor {
           return { type: 'List', elements: t.elements.map(renameTerm), tail: t.tail ? renameTerm(t.tail) : t.tail };
         case 'CompoundTerm':
           return { type: 'CompoundTerm', functor: t.functor, args: t.args.map(renameTerm) };
+        case 'FieldAccess':
+          return AST.withSpan({ type: 'FieldAccess', object: renameTerm(t.object) as AST.FieldAccess['object'], field: t.field }, t.span);
         default:
           return t;
       }
     };
 
-    const head: AST.PredicateHead = {
+    const head: AST.PredicateHead = AST.withSpan({
       name: rule.head.name,
       parameters: rule.head.parameters.map(renameTerm),
-    };
+    }, rule.head.span);
 
     const body = rule.body.map((cond) => this.renameConditionVariables(cond, renameTerm));
-    return { type: 'RuleDeclaration', head, body };
+    return AST.withSpan({ type: 'RuleDeclaration', head, body }, rule.span);
   }
 
+  // Copy a condition with `rename` applied to its terms; the copy keeps the original's span
   private renameConditionVariables(cond: AST.Condition, rename: (term: AST.Term) => AST.Term): AST.Condition {
+    return AST.withSpan(this.renameConditionTerms(cond, rename), cond.span);
+  }
+
+  private renameConditionTerms(cond: AST.Condition, rename: (term: AST.Term) => AST.Term): AST.Condition {
     switch (cond.type) {
       case 'PredicateCall':
         return { type: 'PredicateCall', name: cond.name, arguments: cond.arguments.map(rename) };
       case 'SemanticMatch':
-        return { type: 'SemanticMatch', left: rename(cond.left), right: rename(cond.right) };
+        return {
+          type: 'SemanticMatch',
+          left: rename(cond.left),
+          right: rename(cond.right),
+          threshold: cond.threshold ? rename(cond.threshold) : cond.threshold,
+        };
       case 'Equality':
         return { type: 'Equality', operator: cond.operator, left: rename(cond.left), right: rename(cond.right) };
+      case 'Comparison':
+        return { type: 'Comparison', operator: cond.operator, left: rename(cond.left), right: rename(cond.right) };
       case 'Negation':
         return { type: 'Negation', goals: cond.goals.map((g) => this.renameConditionVariables(g, rename)) };
       case 'Disjunction':
@@ -262,6 +561,25 @@ export class Executor {
     return term;
   }
 
+  // Replace every bound variable and field access in a term by its value
+  public instantiate(term: AST.Term, subst: Substitution): AST.Term {
+    const t = this.resolveField(this.deref(term, subst), subst);
+    switch (t.type) {
+      case 'List':
+        return {
+          type: 'List',
+          elements: t.elements.map((e) => this.instantiate(e, subst)),
+          tail: t.tail ? this.instantiate(t.tail, subst) : t.tail,
+        };
+      case 'CompoundTerm':
+        return { type: 'CompoundTerm', functor: t.functor, args: t.args.map((a) => this.instantiate(a, subst)) };
+      case 'FieldAccess':
+        return { type: 'FieldAccess', object: this.instantiate(t.object, subst) as AST.FieldAccess['object'], field: t.field };
+      default:
+        return t;
+    }
+  }
+
   private occurs(varName: string, term: AST.Term, subst: Substitution): boolean {
     const t = this.deref(term, subst);
     if (t.type === 'Variable') return t.name === varName;
@@ -269,6 +587,7 @@ export class Executor {
       return t.elements.some((e) => this.occurs(varName, e, subst)) || (t.tail ? this.occurs(varName, t.tail, subst) : false);
     }
     if (t.type === 'CompoundTerm') return t.args.some((a) => this.occurs(varName, a, subst));
+    if (t.type === 'FieldAccess') return this.occurs(varName, t.object, subst);
     return false;
   }
 
@@ -294,6 +613,7 @@ export class Executor {
 
     if (left.type === 'Atom' && right.type === 'Atom') return left.value === right.value ? subst : null;
     if (left.type === 'StringLiteral' && right.type === 'StringLiteral') return left.value === right.value ? subst : null;
+    if (left.type === 'NumberLiteral' && right.type === 'NumberLiteral') return left.value === right.value ? subst : null;
 
     if (left.type === 'List' && right.type === 'List') {
       if (left.elements.length > 0 && right.elements.length > 0) {
@@ -337,6 +657,8 @@ export class Executor {
         return (b as AST.Atom).value === a.value;
       case 'StringLiteral':
         return (b as AST.StringLiteral).value === a.value;
+      case 'NumberLiteral':
+        return (b as AST.NumberLiteral).value === a.value;
       case 'List': {
         const lb = b as AST.List;
         if (a.elements.length !== lb.elements.length) return false;
@@ -353,14 +675,18 @@ export class Executor {
       }
       case 'FieldAccess': {
         const fb = b as AST.FieldAccess;
-        return a.object === fb.object && a.field === fb.field;
+        return a.field === fb.field && this.termsEqual(a.object, fb.object);
       }
     }
   }
 
+  // The value of a field access whose object resolves to a name: an atom, a
+  // variable bound to one, or a field holding one. Other terms are returned as is.
   private resolveField(term: AST.Term, subst: Substitution): AST.Term {
     if (term.type !== 'FieldAccess') return term;
-    const value = this.getFieldValue(term.object, term.field);
+    const object = this.resolveField(this.deref(term.object, subst), subst);
+    if (object.type !== 'Atom' && object.type !== 'StringLiteral') return term;
+    const value = this.getFieldValue(object.value, term.field);
     if (value === null) return term;
     if (Array.isArray(value)) {
       return { type: 'List', elements: value.map((v) => ({ type: 'StringLiteral', value: v } as AST.StringLiteral)), tail: null };
@@ -368,21 +694,90 @@ export class Executor {
     return { type: 'StringLiteral', value: value.toString() } as AST.StringLiteral;
   }
 
-  private async evaluateSemanticMatch(condition: AST.SemanticMatchCondition, subst: Substitution): Promise<boolean> {
+  public evaluateArithmetic(term: AST.Term, subst: Substitution): number {
+    return evaluateArithmetic(term, (t) => this.resolveField(this.deref(t, subst), subst));
+  }
+
+  private async evaluateSemanticMatch(condition: AST.SemanticMatchCondition, subst: Substitution, signal?: AbortSignal): Promise<boolean> {
     const leftVal = await this.termToValue(this.deref(condition.left, subst), subst);
     const rightVal = await this.termToValue(this.deref(condition.right, subst), subst);
-    if (typeof leftVal === 'string' && typeof rightVal === 'string') return this.matcher.match(leftVal, rightVal);
-    if (Array.isArray(leftVal) && typeof rightVal === 'string') return this.matcher.match(leftVal, rightVal);
+    const threshold = condition.threshold ? this.evaluateThreshold(condition.threshold, subst) : undefined;
+    if (typeof leftVal === 'string' && typeof rightVal === 'string') return this.matcher.match(leftVal, rightVal, threshold, signal);
+    if (Array.isArray(leftVal) && typeof rightVal === 'string') return this.matcher.match(leftVal, rightVal, threshold, signal);
     return false;
   }
 
-  private async termToValue(term: AST.Term, subst: Substitution): Promise<string | string[] | null> {
+  // Fuzzy evaluation: the best conceptual identity score of the two sides
+  private async scoreSemanticMatch(condition: AST.SemanticMatchCondition, subst: Substitution, signal?: AbortSignal): Promise<number> {
+    const leftVal = await this.termToValue(this.deref(condition.left, subst), subst);
+    const rightVal = await this.termToValue(this.deref(condition.right, subst), subst);
+    if (leftVal === null || typeof rightVal !== 'string') return 0;
+    return this.matcher.getBestConceptualIdentity(leftVal, rightVal, signal);
+  }
+
+  // A side of the match that is an unbound variable, or a field of one
+  private searchTarget(condition: AST.SemanticMatchCondition, subst: Substitution): SearchTarget | null {
+    for (const side of ['left', 'right'] as const) {
+      const term = this.deref(condition[side], subst);
+      if (term.type === 'Variable' && !term.anonymous) return { side, variable: term, field: null };
+      if (term.type === 'FieldAccess') {
+        const object = this.deref(term.object, subst);
+        if (object.type === 'Variable' && !object.anonymous) return { side, variable: object, field: term.field };
+      }
+    }
+    return null;
+  }
+
+  // x =~= "philosopher from Athens" with x unbound: bind x to each entity or
+  // concept that matches, best match first. The search index shortlists the
+  // candidates so that only a few of them are put to the judge.
+  private async *searchSemanticMatch(condition: AST.SemanticMatchCondition, target: SearchTarget, subst: Substitution, signal?: AbortSignal): AsyncGenerator<Solution> {
+    const query = await this.termToValue(target.side === 'left' ? condition.right : condition.left, subst);
+    if (query === null) return;
+    const threshold = condition.threshold ? this.evaluateThreshold(condition.threshold, subst) : this.matcher.getThreshold();
+
+    const values = searchValues(this.kb, target.field);
+    const candidates = [...values].map(([name, value]) => ({ name, text: [value].flat().join(', ') }));
+    const shortlist = await this.searchIndex.shortlist([query].flat().join(', '), candidates, this.searchLimit);
+
+    const matches: { name: string; score: number; judgments: Judgment[] }[] = [];
+    for (const { name } of shortlist) {
+      const value = values.get(name)!;
+      const [left, right] = target.side === 'left' ? [value, query] : [query, value];
+      if (typeof right !== 'string') continue;
+      const judgments: Judgment[] = [];
+      const score = await this.withJudgmentLog(judgments, () => this.matcher.getBestConceptualIdentity(left, right, signal));
+      // Under fuzzy evaluation every candidate with some similarity matches, to that degree
+      const matched = this.tnorm && !condition.threshold ? score > 0 : score >= threshold;
+      if (matched) matches.push({ name, score, judgments });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    for (const { name, score, judgments } of matches) {
+      const bound = this.unify(target.variable, { type: 'Atom', value: name } as AST.Atom, subst);
+      if (bound) {
+        yield { subst: bound, proof: this.leaf({ kind: 'semantic', goal: condition, threshold, judgments }), confidence: this.tnorm ? score : undefined };
+      }
+    }
+  }
+
+  private evaluateThreshold(term: AST.Term, subst: Substitution): number {
+    const threshold = this.evaluateArithmetic(term, subst);
+    if (threshold < 0 || threshold > 1) {
+      throw new FriscoRuntimeError(`Semantic match threshold must be between 0 and 1, got ${threshold}`);
+    }
+    return threshold;
+  }
+
+  public async termToValue(term: AST.Term, subst: Substitution): Promise<string | string[] | null> {
     const t = this.resolveField(this.deref(term, subst), subst);
     switch (t.type) {
       case 'StringLiteral':
         return t.value;
       case 'Atom':
         return t.value;
+      case 'NumberLiteral':
+        return String(t.value);
       case 'List':
         return t.elements.map((e) => this.termToValueSync(e, subst)).map((v) => (v === null ? '' : String(v)));
       case 'Variable':
@@ -399,6 +794,8 @@ export class Executor {
         return t.value;
       case 'Atom':
         return t.value;
+      case 'NumberLiteral':
+        return String(t.value);
       default:
         return null;
     }
@@ -413,33 +810,132 @@ export class Executor {
         return t.value;
       case 'StringLiteral':
         return `"${t.value}"`;
+      case 'NumberLiteral':
+        return String(t.value);
       case 'List': {
         const elements = t.elements.map((e) => this.termToString(e, subst));
         const tail = t.tail ? `| ${this.termToString(t.tail, subst)}` : '';
         return `[${elements.join(', ')}${tail ? ' ' + tail : ''}]`;
       }
       case 'CompoundTerm':
+        if (isArithmeticOperator(t)) return formatArithmetic(t, (a) => this.termToString(a, subst));
         return `${t.functor}(${t.args.map((a) => this.termToString(a, subst)).join(', ')})`;
       case 'FieldAccess':
-        return `${t.object}.${t.field}`;
+        return `${this.termToString(t.object, subst)}.${t.field}`;
     }
   }
 
-  private outputSolution(subst: Substitution, goals: AST.Condition[]): void {
+  // How print/println show a value: strings without their quotes, fields by their value
+  public termToPrintable(term: AST.Term, subst: Substitution): string {
+    const t = this.resolveField(this.deref(term, subst), subst);
+    switch (t.type) {
+      case 'StringLiteral':
+        return t.value;
+      case 'List': {
+        const elements = t.elements.map((e) => this.termToPrintable(e, subst));
+        const tail = t.tail ? ` | ${this.termToPrintable(t.tail, subst)}` : '';
+        return `[${elements.join(', ')}${tail}]`;
+      }
+      case 'CompoundTerm':
+        if (isArithmeticOperator(t)) return formatArithmetic(t, (a) => this.termToPrintable(a, subst));
+        return `${t.functor}(${t.args.map((a) => this.termToPrintable(a, subst)).join(', ')})`;
+      default:
+        return this.termToString(t, subst);
+    }
+  }
+
+  // Output of print/1: held until a line is complete, as the output handler takes whole lines
+  write(text: string): void {
+    this.pendingOutput += text;
+  }
+
+  writeLine(text: string): void {
+    const line = this.pendingOutput + text;
+    this.pendingOutput = '';
+    if (this.capturedOutput) {
+      this.capturedOutput.push(line);
+    } else {
+      this.outputHandler(line);
+    }
+  }
+
+  // Collect the lines `run` prints instead of emitting them
+  private async captureOutput(run: () => Promise<void>): Promise<string[]> {
+    const outer = this.capturedOutput;
+    const lines: string[] = [];
+    this.capturedOutput = lines;
+    try {
+      await run();
+      this.flushOutput();
+    } finally {
+      this.capturedOutput = outer;
+    }
+    return lines;
+  }
+
+  // Emit printed text that is still waiting for the end of its line
+  flushOutput(): void {
+    if (this.pendingOutput) this.writeLine('');
+  }
+
+  // Print a solution's derivation as an indented tree
+  public outputProof(solution: Solution): void {
+    const lines = formatProof(
+      solution.proof,
+      (goal) => this.renderGoal(goal, solution.subst),
+      (clause) => Serializer.serializeRule(clause)
+    );
+    lines.forEach((line) => this.outputHandler(`  ${line}`));
+  }
+
+  // Show a goal with its bindings applied; clause variables keep their source
+  // name behind an underscore instead of their renaming suffix
+  private renderGoal(goal: AST.Condition, subst: Substitution): string {
+    const display = (term: AST.Term): AST.Term => {
+      switch (term.type) {
+        case 'Variable':
+          return term.name.includes('__') ? { ...term, name: `_${term.name.split('__')[0]}` } : term;
+        case 'List':
+          return { type: 'List', elements: term.elements.map(display), tail: term.tail ? display(term.tail) : term.tail };
+        case 'CompoundTerm':
+          return { type: 'CompoundTerm', functor: term.functor, args: term.args.map(display) };
+        case 'FieldAccess':
+          return { type: 'FieldAccess', object: display(term.object) as AST.FieldAccess['object'], field: term.field };
+        default:
+          return term;
+      }
+    };
+    return Serializer.conditionToSource(this.renameConditionVariables(goal, (t) => display(this.instantiate(t, subst))));
+  }
+
+  private outputSolution(subst: Substitution, goals: AST.Condition[], confidence?: number): void {
     const variables = this.collectVariables(goals);
     const shown = variables.filter((v) => subst.has(v));
     if (shown.length === 0) {
       this.outputHandler('');
       return;
     }
-    this.outputHandler('Bindings:');
+    this.outputHandler(this.tnorm ? `Bindings (${formatConfidence(confidence ?? 1)}):` : 'Bindings:');
     for (const name of shown) {
       const value = subst.get(name)!;
       this.outputHandler(`  ${name} = ${this.termToString(value, subst)}`);
     }
   }
 
-  private collectVariables(goals: AST.Condition[]): string[] {
+  // The bound variables among `variables` as plain values; unbound ones are left out
+  public bindingValues(variables: string[], subst: Substitution): Record<string, FriscoValue> {
+    const bindings: Record<string, FriscoValue> = {};
+    for (const name of variables) {
+      const value = this.deref({ type: 'Variable', name }, subst);
+      if (value.type !== 'Variable') {
+        bindings[name] = Serializer.termToValue(this.instantiate(value, subst));
+      }
+    }
+    return bindings;
+  }
+
+  // The named variables of a query, in order of appearance
+  public collectVariables(goals: AST.Condition[]): string[] {
     const names = new Set<string>();
     const visitTerm = (term: AST.Term) => {
       switch (term.type) {
@@ -454,6 +950,7 @@ export class Executor {
           term.args.forEach(visitTerm);
           break;
         case 'FieldAccess':
+          visitTerm(term.object);
           break;
       }
     };
@@ -466,8 +963,10 @@ export class Executor {
         case 'SemanticMatch':
           visitTerm(cond.left);
           visitTerm(cond.right);
+          if (cond.threshold) visitTerm(cond.threshold);
           break;
         case 'Equality':
+        case 'Comparison':
           visitTerm(cond.left);
           visitTerm(cond.right);
           break;
@@ -493,31 +992,7 @@ export class Executor {
   }
 
   private getFieldValue(objectName: string, fieldName: string): string | string[] | null {
-    const concept = this.kb.concepts.get(objectName);
-    if (concept) {
-      if (fieldName === 'description' && concept.description) return concept.description;
-      if (fieldName === 'genus' && concept.genus) return concept.genus;
-      if (fieldName === 'attributes') return concept.attributes;
-      if (fieldName === 'essentials') return concept.essentials;
-    }
-
-    const entity = this.kb.entities.get(objectName);
-    if (entity) {
-      if (fieldName === 'description' && entity.description) return entity.description;
-      if (fieldName === 'concept' || fieldName === 'conceptType') return entity.conceptType;
-      // Check custom properties
-      if (entity.properties && entity.properties.has(fieldName)) {
-        return entity.properties.get(fieldName)!;
-      }
-      const entityConcept = this.kb.concepts.get(entity.conceptType);
-      if (entityConcept) {
-        if (fieldName === 'attributes') return entityConcept.attributes;
-        if (fieldName === 'essentials') return entityConcept.essentials;
-        if (fieldName === 'genus' && entityConcept.genus) return entityConcept.genus;
-      }
-    }
-
-    return null;
+    return fieldValue(this.kb, objectName, fieldName);
   }
 
   private hasCut(subst: Substitution): boolean {
@@ -534,6 +1009,11 @@ export class Executor {
     return this.kb;
   }
 
+  // Values of the program's top-level assignments (name = "value".)
+  getGlobalBindings(): Map<string, AST.Term> {
+    return this.globalBindings;
+  }
+
   getInputHandler(): InputHandler {
     return this.inputHandler;
   }
@@ -542,7 +1022,64 @@ export class Executor {
     return this.outputHandler;
   }
 
+  // Run `goal` once the program being consulted has loaded (initialization/1)
+  addInitializationGoal(goal: AST.Condition): void {
+    this.initializationGoals.push(goal);
+  }
+
+  // Null when the platform has no files to offer (the browser)
+  getFileSystem(): FileSystem | null {
+    return this.fileSystem;
+  }
+
+  getTracer(): Tracer {
+    return this.tracer;
+  }
+
   getMatcher(): SemanticMatcher {
     return this.matcher;
   }
+
+  // How semantic searches shortlist candidates, and how many they judge
+  setSearchIndex(index: SearchIndex, limit: number = DEFAULT_SEARCH_LIMIT): void {
+    this.searchIndex = index;
+    this.searchLimit = limit;
+  }
+
+  setJudgeFailurePolicy(policy: JudgeFailurePolicy): void {
+    this.matcher.failurePolicy = policy;
+  }
+
+  // Similarity a semantic match needs to succeed, unless it gives its own
+  setThreshold(threshold: number): void {
+    if (!(threshold >= 0 && threshold <= 1)) {
+      throw new FriscoRuntimeError(`The threshold must be between 0 and 1, got ${threshold}`);
+    }
+    this.matcher.setThreshold(threshold);
+  }
+
+  setMaxDepth(maxDepth: number): void {
+    if (!(Number.isInteger(maxDepth) && maxDepth >= 1) && maxDepth !== Infinity) {
+      throw new FriscoRuntimeError(`The maximum depth must be a positive integer, got ${maxDepth}`);
+    }
+    this.maxDepth = maxDepth;
+  }
+
+  setOutputFormat(format: OutputFormat): void {
+    this.outputFormat = format;
+  }
+
+  // Evaluate with the given t-norm, or crisply again with null
+  setFuzzyLogic(tnorm: TNorm | null): void {
+    this.tnorm = tnorm;
+  }
+
+  getFuzzyLogic(): TNorm | null {
+    return this.tnorm;
+  }
+}
+
+// Input handler of a platform that has none: readln/1 is an error
+async function noInput(): Promise<string> {
+  throw new FriscoRuntimeError('readln/1: no input is available');
 }
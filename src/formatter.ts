@@ -0,0 +1,104 @@
+// Canonical layout for Frisco source, behind `frisco fmt`. Statements are
+// printed by the Serializer, so the result parses to the same program.
+// Comments are kept: one after a statement stays on its line, one inside a
+// statement moves above it. Runs of blank lines shrink to one.
+
+import * as AST from './ast.js';
+import { Comment, Lexer } from './lexer.js';
+import { parseSource } from './parser.js';
+import { Serializer } from './serializer.js';
+
+// Statements longer than this are split over several lines
+const LINE_WIDTH = 80;
+const BODY_INDENT = '    ';
+const PROPERTY_INDENT = '  ';
+
+// Source lines of one statement or comment, and the lines it came from
+type Block = { text: string; startLine: number; endLine: number };
+
+// Throws the first syntax error: source that does not parse is not formatted
+export function formatSource(source: string, file?: string): string {
+  const { program, errors } = parseSource(source, file);
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+  const { comments } = new Lexer(source, file).tokenizeWithComments();
+
+  const blocks: Block[] = [];
+  const commentBlock = (comment: Comment, line = comment.line): Block => ({ text: comment.text, startLine: line, endLine: line });
+  let next = 0;
+  for (const statement of program.statements) {
+    const { start, end } = statement.span!;
+    while (next < comments.length && comments[next].line < start.line) {
+      blocks.push(commentBlock(comments[next++]));
+    }
+    let trailing = '';
+    while (next < comments.length && comments[next].line <= end.line) {
+      const comment = comments[next++];
+      if (comment.line === end.line && comment.column >= end.column) {
+        trailing = ` ${comment.text}`;
+      } else {
+        blocks.push(commentBlock(comment, start.line));
+      }
+    }
+    blocks.push({ text: formatStatement(statement) + trailing, startLine: start.line, endLine: end.line });
+  }
+  blocks.push(...comments.slice(next).map((comment) => commentBlock(comment)));
+
+  let output = '';
+  blocks.forEach((block, i) => {
+    if (i > 0 && block.startLine > blocks[i - 1].endLine + 1) {
+      output += '\n';
+    }
+    output += `${block.text}\n`;
+  });
+  return output;
+}
+
+function formatStatement(statement: AST.Statement): string {
+  switch (statement.type) {
+    case 'ConceptDeclaration': {
+      const properties = Serializer.conceptProperties(statement);
+      if (properties.length === 0) return Serializer.serializeConcept(statement);
+      return statement.genus
+        ? layoutDeclaration(`concept ${statement.name}: ${statement.genus},`, properties)
+        : layoutDeclaration(`concept ${statement.name}:`, properties);
+    }
+    case 'EntityDeclaration': {
+      const properties = Serializer.entityProperties(statement);
+      if (properties.length === 0) return Serializer.serializeEntity(statement);
+      return layoutDeclaration(`entity ${statement.name}: ${statement.conceptType},`, properties);
+    }
+    case 'RuleDeclaration': {
+      const line = Serializer.serializeRule(statement);
+      if (line.length <= LINE_WIDTH || statement.body.length === 0) return line;
+      const goals = statement.body.map((goal) => Serializer.conditionToSource(goal));
+      return `${Serializer.ruleHead(statement)} :-\n${BODY_INDENT}${goals.join(`,\n${BODY_INDENT}`)}.`;
+    }
+    default:
+      return Serializer.serializeStatement(statement);
+  }
+}
+
+//   concept Man: description = "rational animal".
+//
+//   concept Man:
+//     description = "rational animal",
+//     attributes = [
+//       "finite lifespan",
+//       "biological organism"
+//     ].
+function layoutDeclaration(header: string, properties: [string, string | string[]][]): string {
+  const inline = properties.map(([name, value]) => `${name} = ${Array.isArray(value) ? `[${value.join(', ')}]` : value}`);
+  const line = `${header} ${inline.join(', ')}.`;
+  if (line.length <= LINE_WIDTH) return line;
+
+  const lines = properties.map(([name, value], i) => {
+    if (!Array.isArray(value) || PROPERTY_INDENT.length + inline[i].length + 1 <= LINE_WIDTH) {
+      return `${PROPERTY_INDENT}${inline[i]}`;
+    }
+    const entries = value.map((entry) => `${PROPERTY_INDENT}${PROPERTY_INDENT}${entry}`).join(',\n');
+    return `${PROPERTY_INDENT}${name} = [\n${entries}\n${PROPERTY_INDENT}]`;
+  });
+  return `${header}\n${lines.join(',\n')}.`;
+}
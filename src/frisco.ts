@@ -0,0 +1,165 @@
+// Frisco as a library: consult source, ask queries and read the solutions as
+// plain values instead of the REPL's printed "Bindings:" lines. Problems are
+// thrown as FriscoErrors; nothing here prints diagnostics or exits the process.
+
+import * as AST from './ast.js';
+import { Executor, FileSystem, InputHandler, OutputHandler } from './executor.js';
+import { JudgeBackend, JudgeFailurePolicy } from './judge-backend.js';
+import { parseSource } from './parser.js';
+import { FriscoValue, Serializer } from './serializer.js';
+import { FriscoSyntaxError } from './errors.js';
+import { SearchIndex } from './semantic-search.js';
+
+export type FriscoOptions = {
+  // Answers the semantic questions; defaults to an OpenAI-compatible endpoint
+  judge?: JudgeBackend;
+  // What a semantic goal does when the judge fails: 'error' (the default),
+  // 'fail' or 'unknown'
+  judgeFailure?: JudgeFailurePolicy;
+  // Similarity a semantic match needs to succeed (0.7 by default)
+  threshold?: number;
+  // Deepest nesting of rule calls a query may reach; unlimited by default
+  maxDepth?: number;
+  // Receives print/println output and the results of queries in consulted
+  // source; discarded by default
+  output?: OutputHandler;
+  // Answers readln; without one readln is an error
+  input?: InputHandler;
+  // Files consult/1 can load, e.g. nodeFileSystem; without one consult/1 is an error
+  fileSystem?: FileSystem;
+  search?: { index: SearchIndex; limit?: number };
+};
+
+export type { FriscoValue };
+
+// One solution of a query: its bound variables by name
+export type Bindings = Record<string, FriscoValue>;
+
+export type ConsultSourceOptions = {
+  // Names the source in the spans of errors
+  file?: string;
+  // Replace the clauses of the predicates the source defines instead of adding to them
+  redefine?: boolean;
+  // Cancels the source's queries and their judge requests
+  signal?: AbortSignal;
+};
+
+export type QueryOptions = {
+  // Cancels the query and its judge requests; the generator throws a FriscoCancelledError
+  signal?: AbortSignal;
+};
+
+// getKnowledgeBase(): declarations as plain objects, rules as source
+export type KnowledgeBaseJSON = {
+  concepts: {
+    name: string;
+    genus: string | null;
+    description: string | null;
+    attributes: string[];
+    essentials: string[];
+    excludedAttributes: string[];
+    excludedEssentials: string[];
+  }[];
+  entities: { name: string; concept: string; description: string | null; properties: Record<string, string> }[];
+  rules: string[];
+  bindings: Record<string, FriscoValue>;
+};
+
+export class Frisco {
+  private executor: Executor;
+
+  constructor(options: FriscoOptions = {}) {
+    this.executor = new Executor(options.threshold ?? 0.7, options.output ?? (() => {}), options.input, options.judge, options.fileSystem);
+    if (options.search) {
+      this.executor.setSearchIndex(options.search.index, options.search.limit);
+    }
+    if (options.maxDepth !== undefined) {
+      this.executor.setMaxDepth(options.maxDepth);
+    }
+    if (options.judgeFailure) {
+      this.executor.setJudgeFailurePolicy(options.judgeFailure);
+    }
+  }
+
+  // Add a program's declarations to the knowledge base and run its queries.
+  // Throws the first syntax error without changing anything.
+  async consult(source: string, options: ConsultSourceOptions = {}): Promise<void> {
+    const program = parse(source, options.file);
+    await this.executor.consult(program, { redefine: options.redefine }, options.signal);
+  }
+
+  // The solutions of a goal such as `mortal(x)` or `? mortal(x), x =~= "sage".`,
+  // found one at a time as they are asked for
+  async *query(goal: string, options: QueryOptions = {}): AsyncGenerator<Bindings> {
+    const text = goal.trim().replace(/^\?/, '').replace(/\.$/, '');
+    const program = parse(`? ${text}.`);
+    const [query] = program.statements;
+    if (program.statements.length !== 1 || query.type !== 'Query') {
+      throw new FriscoSyntaxError(`Expected a single query: ${goal}`);
+    }
+
+    const variables = this.executor.collectVariables(query.body);
+    try {
+      for await (const subst of this.executor.evaluateGoals(query.body, new Map(this.executor.getGlobalBindings()), options.signal)) {
+        yield this.executor.bindingValues(variables, subst);
+      }
+    } finally {
+      // A line left open by print/1 is complete once the query is done
+      this.executor.flushOutput();
+    }
+  }
+
+  // Add clauses, concepts or entities, e.g. `mortal(x) :- man(x).`; a clause
+  // goes after the existing clauses of its predicate. Source with queries is
+  // rejected, as nothing is run.
+  async assert(clauses: string): Promise<void> {
+    const text = clauses.trim();
+    const program = parse(text.endsWith('.') ? text : `${text}.`);
+    const query = program.statements.find((statement) => statement.type === 'Query');
+    if (query) {
+      throw new FriscoSyntaxError('assert takes declarations and clauses, not queries', query.span);
+    }
+    await this.executor.consult(program);
+  }
+
+  // Empty the knowledge base
+  reset(): void {
+    this.executor.reset();
+  }
+
+  getKnowledgeBase(): KnowledgeBaseJSON {
+    const kb = this.executor.getKnowledgeBase();
+    return {
+      concepts: [...kb.concepts.values()].map((concept) => ({
+        name: concept.name,
+        genus: concept.genus,
+        description: concept.description,
+        attributes: [...concept.attributes],
+        essentials: [...concept.essentials],
+        excludedAttributes: [...concept.excludedAttributes],
+        excludedEssentials: [...concept.excludedEssentials],
+      })),
+      entities: [...kb.entities.values()].map((entity) => ({
+        name: entity.name,
+        concept: entity.conceptType,
+        description: entity.description,
+        properties: Object.fromEntries(entity.properties),
+      })),
+      rules: kb.rules.map((rule) => Serializer.serializeRule(rule)),
+      bindings: Object.fromEntries([...this.executor.getGlobalBindings()].map(([name, term]) => [name, Serializer.termToValue(term)])),
+    };
+  }
+
+  // The executor behind the facade, for what it does not cover (tracing, proofs)
+  getExecutor(): Executor {
+    return this.executor;
+  }
+}
+
+function parse(source: string, file?: string): AST.Program {
+  const { program, errors } = parseSource(source, file);
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+  return program;
+}
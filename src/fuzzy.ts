@@ -0,0 +1,50 @@
+// Fuzzy evaluation: with a t-norm selected, semantic goals succeed to the
+// degree the judge scores them instead of passing or failing against the
+// threshold. Each solution carries that degree as its confidence, combined by
+// the t-norm across a conjunction and by its dual t-conorm across the
+// alternative solutions of a goal; negation takes the complement.
+
+import { FriscoError } from './errors.js';
+
+export type TNorm = 'min' | 'product' | 'lukasiewicz';
+
+export const TNORMS: TNorm[] = ['min', 'product', 'lukasiewicz'];
+
+// Both a and b
+export function conjoin(tnorm: TNorm, a: number, b: number): number {
+  switch (tnorm) {
+    case 'min':
+      return Math.min(a, b);
+    case 'product':
+      return a * b;
+    case 'lukasiewicz':
+      return Math.max(0, a + b - 1);
+  }
+}
+
+// Either a or b
+export function disjoin(tnorm: TNorm, a: number, b: number): number {
+  switch (tnorm) {
+    case 'min':
+      return Math.max(a, b);
+    case 'product':
+      return a + b - a * b;
+    case 'lukasiewicz':
+      return Math.min(1, a + b);
+  }
+}
+
+export function negate(a: number): number {
+  return 1 - a;
+}
+
+export function parseTNorm(value: string): TNorm {
+  if (!TNORMS.includes(value as TNorm)) {
+    throw new FriscoError(`Unknown t-norm "${value}" (expected one of ${TNORMS.join(', ')})`);
+  }
+  return value as TNorm;
+}
+
+export function formatConfidence(confidence: number): string {
+  return confidence.toFixed(2);
+}
@@ -0,0 +1,137 @@
+// What each piece of Frisco source is, for syntax highlighting in the REPL and
+// semantic tokens in the language server. Built on the lexer, with the parsed
+// program telling concept names from entity names.
+
+import { Comment, Lexer, Token, TokenType } from './lexer.js';
+import { parseSource } from './parser.js';
+import { isBuiltin } from './builtins.js';
+
+export type HighlightKind =
+  | 'keyword'
+  | 'operator'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'variable'
+  | 'predicate'
+  | 'builtin'
+  | 'concept'
+  | 'entity'
+  | 'atom'
+  | 'property';
+
+// A run of source on one line: 1-based line and column, as the lexer counts
+export type HighlightToken = {
+  kind: HighlightKind;
+  line: number;
+  column: number;
+  length: number;
+};
+
+const KEYWORDS = new Set<TokenType>([
+  TokenType.CONCEPT,
+  TokenType.ENTITY,
+  TokenType.DESCRIPTION,
+  TokenType.ATTRIBUTES,
+  TokenType.ESSENTIALS,
+  TokenType.NEGATION,
+  TokenType.IS,
+  TokenType.MOD,
+  TokenType.QUERY,
+]);
+
+const OPERATORS = new Set<TokenType>([
+  TokenType.ASSIGN,
+  TokenType.EQUAL_EQUAL,
+  TokenType.SEMANTIC_MATCH,
+  TokenType.AT,
+  TokenType.LESS,
+  TokenType.GREATER,
+  TokenType.LESS_EQUAL,
+  TokenType.GREATER_EQUAL,
+  TokenType.ARITH_EQUAL,
+  TokenType.ARITH_NOT_EQUAL,
+  TokenType.PLUS,
+  TokenType.MINUS,
+  TokenType.STAR,
+  TokenType.SLASH,
+  TokenType.INT_DIVIDE,
+  TokenType.IMPLIES,
+  TokenType.BAR,
+  TokenType.SEMICOLON,
+  TokenType.CUT,
+  TokenType.IF_THEN,
+]);
+
+// Every token and comment worth colouring, in source order. Source with
+// syntax errors is classified as far as it lexes.
+export function classifySource(source: string): HighlightToken[] {
+  const { tokens, comments } = new Lexer(source).tokenizeWithComments();
+  const concepts = new Set<string>();
+  const entities = new Set<string>();
+  for (const statement of parseSource(source).program.statements) {
+    if (statement.type === 'ConceptDeclaration') {
+      concepts.add(statement.name);
+      if (statement.genus) concepts.add(statement.genus);
+    } else if (statement.type === 'EntityDeclaration') {
+      entities.add(statement.name);
+      concepts.add(statement.conceptType);
+    }
+  }
+
+  const lines = source.split('\n');
+  const highlights: HighlightToken[] = [];
+  tokens.forEach((token, i) => {
+    const kind = classifyToken(token, tokens[i - 1], tokens[i + 1], concepts, entities);
+    if (kind) highlights.push(...splitLines(kind, token, lines));
+  });
+  highlights.push(...comments.map((comment: Comment) => ({ kind: 'comment' as const, line: comment.line, column: comment.column, length: comment.text.length })));
+  return highlights.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+function classifyToken(
+  token: Token,
+  previous: Token | undefined,
+  next: Token | undefined,
+  concepts: Set<string>,
+  entities: Set<string>
+): HighlightKind | null {
+  const call = next?.type === TokenType.LPAREN;
+  // The field of object.field, which may be a keyword (x.description)
+  const field = previous?.type === TokenType.DOT && previous.line === token.line && previous.endColumn === token.column;
+  if (field && (token.type === TokenType.IDENTIFIER || KEYWORDS.has(token.type))) return 'property';
+  if (KEYWORDS.has(token.type)) {
+    // Keywords double as functors: concept(c), description("...")
+    if (!call) return 'keyword';
+    return isBuiltin(token.value) ? 'builtin' : 'property';
+  }
+  if (OPERATORS.has(token.type)) return 'operator';
+  switch (token.type) {
+    case TokenType.STRING:
+      return 'string';
+    case TokenType.NUMBER:
+      return 'number';
+    case TokenType.IDENTIFIER:
+      if (call) return isBuiltin(token.value) ? 'builtin' : 'predicate';
+      if (/^[a-z_]/.test(token.value) && !/^_./.test(token.value)) return 'variable';
+      if (concepts.has(token.value)) return 'concept';
+      if (entities.has(token.value)) return 'entity';
+      return 'atom';
+    default:
+      return null;
+  }
+}
+
+// A token as one highlight per line it covers (only strings span lines)
+function splitLines(kind: HighlightKind, token: Token, lines: string[]): HighlightToken[] {
+  if (token.endLine === token.line) {
+    return [{ kind, line: token.line, column: token.column, length: token.endColumn - token.column }];
+  }
+  const pieces: HighlightToken[] = [];
+  for (let line = token.line; line <= token.endLine; line++) {
+    const column = line === token.line ? token.column : 1;
+    const end = line === token.endLine ? token.endColumn : (lines[line - 1]?.length ?? 0) + 1;
+    if (end > column) pieces.push({ kind, line, column, length: end - column });
+  }
+  return pieces;
+}
@@ -2,36 +2,100 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { Lexer } from './lexer.js';
-import { Parser } from './parser.js';
+import { parseSource } from './parser.js';
 import { Executor } from './executor.js';
 import { startRepl } from './repl.js';
+import { createJudgeBackend } from './judge-config.js';
+import { CommandLine, FriscoConfig, configureExecutor, loadConfig, parseCommandLine } from './config.js';
+import { FriscoError, formatDiagnostic } from './errors.js';
+import { checkProgram, formatLintDiagnostic } from './analyzer.js';
+import { formatSource } from './formatter.js';
+import { startLanguageServer } from './language-server.js';
+import { nodeFileSystem, readStdinLine } from './node-host.js';
 
-export async function runFile(filePath: string): Promise<void> {
+export { Frisco } from './frisco.js';
+export type { Bindings, FriscoOptions, FriscoValue, KnowledgeBaseJSON, QueryOptions } from './frisco.js';
+
+// Returns false when the program failed to parse or stopped with an error
+export async function runFile(filePath: string, config?: FriscoConfig): Promise<boolean> {
   const source = fs.readFileSync(filePath, 'utf-8');
-  await run(source);
+  return run(source, filePath, config);
 }
 
-export async function run(source: string): Promise<void> {
+// programPath names the program in diagnostics and locates the judgment cache
+// file when FRISCO_JUDGE_CACHE is set. Without a config, the one of the
+// program's directory is loaded (see config.ts). Errors are reported on
+// stderr; whether to exit is left to the caller.
+export async function run(source: string, programPath?: string, config?: FriscoConfig): Promise<boolean> {
   try {
-    // Lexical analysis
-    const lexer = new Lexer(source);
-    const tokens = lexer.tokenize();
-
-    // Parsing
-    const parser = new Parser(tokens);
-    const ast = parser.parse();
+    // Lexing and parsing, reporting every syntax error before giving up
+    const { program: ast, errors } = parseSource(source, programPath);
+    if (errors.length > 0) {
+      console.error(errors.map((error) => formatDiagnostic(error)).join('\n\n'));
+      return false;
+    }
 
     // Execution
-    const executor = new Executor(0.7); // 0.7 similarity threshold
+    const settings = config ?? loadConfig(programPath ? path.dirname(programPath) : process.cwd());
+    const judge = createJudgeBackend(settings.judge, programPath, readStdinLine);
+    const executor = new Executor(settings.threshold, undefined, readStdinLine, judge, nodeFileSystem);
+    configureExecutor(executor, settings);
     await executor.execute(ast);
+    return true;
   } catch (error) {
-    if (error instanceof Error) {
-      console.error('Error:', error.message);
-    } else {
-      console.error('Unknown error:', error);
-    }
-    process.exit(1);
+    console.error(formatDiagnostic(error, source, programPath));
+    return false;
+  }
+}
+
+// `frisco check file.frisco`: report syntax errors and the analyzer's
+// findings without running anything. Returns the number of errors.
+export function checkFile(filePath: string): number {
+  const source = fs.readFileSync(filePath, 'utf-8');
+  const { program, errors } = parseSource(source, filePath);
+  const findings = checkProgram(program);
+
+  const reports = [...errors.map((error) => formatDiagnostic(error)), ...findings.map(formatLintDiagnostic)];
+  const errorCount = errors.length + findings.filter((finding) => finding.severity === 'error').length;
+  const warningCount = findings.length - (errorCount - errors.length);
+  reports.forEach((report) => console.log(`${report}\n`));
+  console.log(
+    reports.length === 0
+      ? `${filePath}: no problems found`
+      : `${filePath}: ${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`
+  );
+  return errorCount;
+}
+
+export type FormatMode = 'print' | 'check' | 'write';
+
+// `frisco fmt [--check | --write] file.frisco`: print the file in canonical
+// layout, or with --check report it if it is not, or with --write rewrite it.
+// Returns false when the file does not parse or fails the check.
+export function formatFile(filePath: string, mode: FormatMode): boolean {
+  const source = fs.readFileSync(filePath, 'utf-8');
+  let formatted: string;
+  try {
+    formatted = formatSource(source, filePath);
+  } catch (error) {
+    console.error(formatDiagnostic(error, source, filePath));
+    return false;
+  }
+
+  switch (mode) {
+    case 'print':
+      process.stdout.write(formatted);
+      return true;
+    case 'check':
+      if (formatted === source) return true;
+      console.log(`${filePath}: not formatted`);
+      return false;
+    case 'write':
+      if (formatted !== source) {
+        fs.writeFileSync(filePath, formatted, 'utf-8');
+        console.log(`Formatted ${filePath}`);
+      }
+      return true;
   }
 }
 
@@ -39,12 +103,53 @@ export async function run(source: string): Promise<void> {
 if (import.meta.url === `file://${process.argv[1]}`) {
   const args = process.argv.slice(2);
 
-  if (args.length === 0) {
-    // No file specified - start REPL
-    startRepl();
+  if (args[0] === 'check' && args.length > 1) {
+    const errorCount = args.slice(1).reduce((total, file) => total + checkFile(path.resolve(file)), 0);
+    process.exit(errorCount > 0 ? 1 : 0);
+  } else if (args[0] === 'lsp') {
+    // Language server over stdio, for editors
+    startLanguageServer();
+  } else if (args[0] === 'fmt' && args.length > 1) {
+    const files = args.slice(1).filter((arg) => !arg.startsWith('--'));
+    const mode: FormatMode = args.includes('--write') ? 'write' : args.includes('--check') ? 'check' : 'print';
+    const results = files.map((file) => formatFile(path.resolve(file), mode));
+    process.exit(results.every((ok) => ok) ? 0 : 1);
   } else {
-    // Run file
-    const filePath = path.resolve(args[0]);
-    runFile(filePath);
+    // frisco [flags] [file.frisco]: run the file, or start the REPL without one
+    const commandLine = parseCommandLineOrExit(args);
+    const [file] = commandLine.rest;
+    if (file === undefined) {
+      const config = loadConfigOrExit(process.cwd(), commandLine);
+      startRepl((input) => createJudgeBackend(config.judge, undefined, input), config);
+    } else {
+      const filePath = path.resolve(file);
+      runFile(filePath, loadConfigOrExit(path.dirname(filePath), commandLine)).then((ok) => {
+        if (!ok) process.exit(1);
+      });
+    }
+  }
+}
+
+function parseCommandLineOrExit(args: string[]): CommandLine {
+  return orExit(() => {
+    const commandLine = parseCommandLine(args);
+    const unknown = commandLine.rest.find((arg) => arg.startsWith('--'));
+    if (unknown) {
+      throw new FriscoError(`Unknown option ${unknown}`);
+    }
+    return commandLine;
+  });
+}
+
+function loadConfigOrExit(dir: string, commandLine: CommandLine): FriscoConfig {
+  return orExit(() => loadConfig(dir, commandLine));
+}
+
+function orExit<T>(run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    console.error(formatDiagnostic(error));
+    process.exit(1);
   }
 }
@@ -0,0 +1,290 @@
+// Judge backends: the services that answer the SemanticMatcher's questions.
+// Chat backends send the operation's system prompt and JSON schema to a model;
+// the table backend answers from a fixed list of judgments and the human
+// backend asks a person.
+
+import { FriscoCancelledError, FriscoJudgeError } from './errors.js';
+import { JudgeTransport, TransportOptions } from './judge-transport.js';
+
+export type JudgeOperation = 'conceptual_identity' | 'has_attr' | 'share_attr' | 'differentia' | 'similar_attr';
+
+export type JudgeRequest = {
+  operation: JudgeOperation;
+  // The operation's arguments, in the order the builtin receives them
+  args: string[];
+  systemPrompt: string;
+  userMessage: string;
+  schema: object;
+  // Aborted when the query asking the question is cancelled
+  signal?: AbortSignal;
+};
+
+// Parsed JSON answer matching the request schema: { similarity: number } for
+// scored operations, { result: boolean | string } otherwise. null when the
+// backend has no answer to give (differentia in the table backend, a human
+// abstaining); a backend that fails to answer throws a FriscoJudgeError.
+export type JudgeResponse = Record<string, unknown> | null;
+
+export interface JudgeBackend {
+  judge(request: JudgeRequest): Promise<JudgeResponse>;
+}
+
+export type JudgeBackendKind = 'openai' | 'ollama' | 'embedding' | 'table' | 'human';
+
+// record:  answer from the cache, ask the judge on a miss and store the answer
+// replay:  answer only from the cache; a miss is an error
+// refresh: ask the judge for everything and rewrite the cache
+export type JudgeCacheMode = 'record' | 'replay' | 'refresh';
+
+// What a semantic goal does when the judge cannot answer:
+// error:   the query stops with the FriscoJudgeError
+// fail:    the judge's answer counts as no (score 0, false)
+// unknown: the goal fails too, but the judgment is marked unknown and a query
+//          left without solutions reports Unknown instead of False
+export type JudgeFailurePolicy = 'error' | 'fail' | 'unknown';
+
+export type JudgeConfig = {
+  backend: JudgeBackendKind;
+  endpoint?: string;
+  model?: string;
+  apiKey?: string;
+  // Path to a JSON array of JudgeTableEntry (table backend)
+  table?: string;
+  // Persist judgments to cacheFile (see judgment-cache.ts)
+  cache?: JudgeCacheMode;
+  cacheFile?: string;
+  // Transport of the openai and ollama backends (see judge-transport.ts)
+  timeoutMs?: number;
+  retries?: number;
+  concurrency?: number;
+  onFailure?: JudgeFailurePolicy;
+};
+
+export const DEFAULT_JUDGE_ENDPOINT = 'http://localhost:9090';
+
+// Which response field an operation answers with
+export const OPERATION_RESULT: Record<JudgeOperation, 'score' | 'boolean' | 'text'> = {
+  conceptual_identity: 'score',
+  similar_attr: 'score',
+  has_attr: 'boolean',
+  share_attr: 'boolean',
+  differentia: 'text',
+};
+
+export type ChatBackendOptions = {
+  model?: string;
+  apiKey?: string;
+  transport?: TransportOptions;
+};
+
+// Any server speaking the OpenAI chat completions API with json_schema response formats
+export class OpenAICompatibleBackend implements JudgeBackend {
+  private readonly endpoint: string;
+  private readonly options: ChatBackendOptions;
+  private readonly transport: JudgeTransport;
+
+  constructor(endpoint: string = DEFAULT_JUDGE_ENDPOINT, options: ChatBackendOptions = {}) {
+    this.endpoint = endpoint;
+    this.options = options;
+    this.transport = new JudgeTransport(options.transport);
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const body = {
+      ...(this.options.model ? { model: this.options.model } : {}),
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userMessage }
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'response',
+          strict: true,
+          schema: request.schema
+        }
+      }
+    };
+    const headers: Record<string, string> = this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {};
+    const data = await this.transport.postJSON(`${this.endpoint}/v1/chat/completions`, body, headers, request.signal) as {
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    return parseContent(data.choices?.[0]?.message?.content, this.endpoint);
+  }
+}
+
+// Ollama's native /api/chat endpoint, which takes the JSON schema as `format`
+export class OllamaBackend implements JudgeBackend {
+  private readonly endpoint: string;
+  private readonly options: ChatBackendOptions;
+  private readonly transport: JudgeTransport;
+
+  constructor(endpoint: string = 'http://localhost:11434', options: ChatBackendOptions = {}) {
+    this.endpoint = endpoint;
+    this.options = options;
+    this.transport = new JudgeTransport(options.transport);
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const body = {
+      model: this.options.model ?? 'llama3.1',
+      stream: false,
+      format: request.schema,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userMessage }
+      ],
+    };
+    const data = await this.transport.postJSON(`${this.endpoint}/api/chat`, body, {}, request.signal) as {
+      message?: { content?: string };
+    };
+    return parseContent(data.message?.content, this.endpoint);
+  }
+}
+
+// The model's answer: JSON text matching the request schema
+function parseContent(content: string | undefined, endpoint: string): JudgeResponse {
+  if (!content) {
+    throw new FriscoJudgeError(`Judge at ${endpoint} answered without content`);
+  }
+  try {
+    return JSON.parse(content) as JudgeResponse;
+  } catch {
+    throw new FriscoJudgeError(`Judge at ${endpoint} answered with malformed JSON: ${content}`);
+  }
+}
+
+// A person settles every question, answering through an input handler (the
+// REPL's input> prompt, window.prompt in the browser, stdin for `frisco run`).
+// They see the operation, its arguments and the guidance of its system prompt,
+// and answer with a score, yes/no or a phrase. An empty answer abstains: a
+// FriscoJudgeError, handled by the failure policy like a backend that could not
+// answer. A cancelled query stops waiting for the answer. Answers are remembered
+// for the life of the backend, conceptual identity both ways round.
+export class HumanBackend implements JudgeBackend {
+  private readonly ask: (prompt?: string) => Promise<string>;
+  private readonly answers = new Map<string, JudgeResponse>();
+
+  constructor(ask: (prompt?: string) => Promise<string>) {
+    this.ask = ask;
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const key = tableKey(request.operation, request.args);
+    if (this.answers.has(key)) return this.answers.get(key)!;
+
+    const kind = OPERATION_RESULT[request.operation];
+    let prompt = humanPrompt(request);
+    while (true) {
+      const answer = (await untilAborted(this.ask(prompt), request.signal)).trim();
+      if (answer === '') {
+        throw new FriscoJudgeError(`The human judge abstained on ${humanCall(request)}`);
+      }
+      const response = parseHumanAnswer(kind, answer);
+      if (response) {
+        this.answers.set(key, response);
+        if (request.operation === 'conceptual_identity') {
+          this.answers.set(tableKey(request.operation, [...request.args].reverse()), response);
+        }
+        return response;
+      }
+      prompt = `Not understood: "${answer}". ${HUMAN_ANSWER_FORMS[kind]}`;
+    }
+  }
+}
+
+// The answer, or a FriscoCancelledError as soon as the signal aborts
+function untilAborted<T>(answer: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return answer;
+  if (signal.aborted) return Promise.reject(new FriscoCancelledError());
+  return new Promise((resolve, reject) => {
+    const cancel = () => reject(new FriscoCancelledError());
+    signal.addEventListener('abort', cancel, { once: true });
+    answer.then(resolve, reject).finally(() => signal.removeEventListener('abort', cancel));
+  });
+}
+
+const HUMAN_ANSWER_FORMS: Record<'score' | 'boolean' | 'text', string> = {
+  score: 'Answer with a score from 0 to 1 (or yes/no), or nothing to abstain:',
+  boolean: 'Answer yes or no, or nothing to abstain:',
+  text: 'Answer with a short phrase, or nothing to abstain:',
+};
+
+// has_attr("lifespan", "corporation"), the system prompt without its
+// examples, and how to answer
+function humanPrompt(request: JudgeRequest): string {
+  const guidance = request.systemPrompt
+    .split(/\n\s*\n/)
+    .filter((paragraph) => !paragraph.trim().startsWith('Examples:'))
+    .join('\n\n');
+  return `Judge ${humanCall(request)}\n${guidance}\n${HUMAN_ANSWER_FORMS[OPERATION_RESULT[request.operation]]}`;
+}
+
+function humanCall(request: JudgeRequest): string {
+  return `${request.operation}(${request.args.map((arg) => JSON.stringify(arg)).join(', ')})`;
+}
+
+function parseHumanAnswer(kind: 'score' | 'boolean' | 'text', answer: string): JudgeResponse {
+  const yesNo = /^(y|yes|true)$/i.test(answer) ? true : /^(n|no|false)$/i.test(answer) ? false : null;
+  switch (kind) {
+    case 'score': {
+      const score = yesNo !== null ? Number(yesNo) : Number(answer);
+      return Number.isFinite(score) && score >= 0 && score <= 1 ? { similarity: score } : null;
+    }
+    case 'boolean':
+      return yesNo !== null ? { result: yesNo } : null;
+    case 'text':
+      return { result: answer };
+  }
+}
+
+export type JudgeTableEntry = {
+  operation: JudgeOperation;
+  args: string[];
+  result: number | boolean | string;
+};
+
+// Deterministic judge answering from a table of known judgments. Arguments are
+// compared case-insensitively; conceptual identity is symmetric. Questions the
+// table does not cover fall back to exact comparison: identical strings score
+// 1, anything else 0 or false, and differentia has no answer.
+export class TableBackend implements JudgeBackend {
+  private readonly entries = new Map<string, JudgeTableEntry['result']>();
+
+  constructor(entries: JudgeTableEntry[] = []) {
+    for (const entry of entries) {
+      this.entries.set(tableKey(entry.operation, entry.args), entry.result);
+      if (entry.operation === 'conceptual_identity' && entry.args.length === 2) {
+        this.entries.set(tableKey(entry.operation, [entry.args[1], entry.args[0]]), entry.result);
+      }
+    }
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const known = this.entries.get(tableKey(request.operation, request.args));
+    const kind = OPERATION_RESULT[request.operation];
+
+    if (known !== undefined) {
+      return kind === 'score' ? { similarity: Number(known) } : { result: known };
+    }
+
+    switch (kind) {
+      case 'score': {
+        const [a, b] = request.args.slice(-2).map(normalize);
+        return { similarity: a === b ? 1 : 0 };
+      }
+      case 'boolean':
+        return { result: false };
+      case 'text':
+        return null;
+    }
+  }
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+function tableKey(operation: JudgeOperation, args: string[]): string {
+  return JSON.stringify([operation, ...args.map(normalize)]);
+}
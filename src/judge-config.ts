@@ -0,0 +1,159 @@
+// Build the judge backend selected by configuration (Node only: reads table files
+// and loads the local embedding model)
+
+import * as fs from 'fs';
+import {
+  JudgeBackend,
+  JudgeBackendKind,
+  JudgeCacheMode,
+  JudgeConfig,
+  JudgeFailurePolicy,
+  JudgeTableEntry,
+  DEFAULT_JUDGE_ENDPOINT,
+  OpenAICompatibleBackend,
+  OllamaBackend,
+  TableBackend,
+  HumanBackend,
+} from './judge-backend.js';
+import type { InputHandler } from './executor.js';
+import { EmbeddingBackend } from './embedding-backend.js';
+import { FriscoError } from './errors.js';
+import { CachingBackend, defaultCacheFile } from './judgment-cache.js';
+import { TransportOptions } from './judge-transport.js';
+import { TNorm, parseTNorm } from './fuzzy.js';
+import { DEFAULT_SEARCH_LIMIT, EmbeddingIndex, LexicalIndex, SearchIndex, SearchIndexKind } from './semantic-search.js';
+
+const BACKEND_KINDS: JudgeBackendKind[] = ['openai', 'ollama', 'embedding', 'table', 'human'];
+const CACHE_MODES: JudgeCacheMode[] = ['record', 'replay', 'refresh'];
+const FAILURE_POLICIES: JudgeFailurePolicy[] = ['error', 'fail', 'unknown'];
+const SEARCH_INDEX_KINDS: SearchIndexKind[] = ['lexical', 'embedding'];
+
+// How semantic searches (x =~= "...") shortlist candidates; see semantic-search.ts
+export type SearchConfig = {
+  index: SearchIndexKind;
+  // Candidates judged per search
+  limit: number;
+  // fastembed model of the embedding index
+  model?: string;
+};
+
+// Judgments are always cached in memory; config.cache also persists them to
+// config.cacheFile, by default next to the program being run. The human
+// backend asks its questions through `input`.
+export function createJudgeBackend(config: JudgeConfig, programPath?: string, input?: InputHandler): JudgeBackend {
+  const backend = createUncachedBackend(config, input);
+  if (config.cache) {
+    return new CachingBackend(backend, config.cache, config.cacheFile ?? defaultCacheFile(programPath));
+  }
+  return new CachingBackend(backend);
+}
+
+function createUncachedBackend(config: JudgeConfig, input?: InputHandler): JudgeBackend {
+  const transport: TransportOptions = { timeoutMs: config.timeoutMs, retries: config.retries, concurrency: config.concurrency };
+  switch (config.backend) {
+    case 'openai':
+      return new OpenAICompatibleBackend(config.endpoint ?? DEFAULT_JUDGE_ENDPOINT, { model: config.model, apiKey: config.apiKey, transport });
+    case 'ollama':
+      return new OllamaBackend(config.endpoint, { model: config.model, transport });
+    case 'embedding':
+      return new EmbeddingBackend({ model: config.model });
+    case 'table': {
+      const entries = config.table
+        ? (JSON.parse(fs.readFileSync(config.table, 'utf-8')) as JudgeTableEntry[])
+        : [];
+      return new TableBackend(entries);
+    }
+    case 'human':
+      if (!input) {
+        throw new FriscoError('The human judge needs a way to ask questions, and none is available here');
+      }
+      return new HumanBackend(input);
+  }
+}
+
+// FRISCO_JUDGE_BACKEND, FRISCO_JUDGE_ENDPOINT, FRISCO_JUDGE_MODEL,
+// FRISCO_JUDGE_API_KEY, FRISCO_JUDGE_TABLE, FRISCO_JUDGE_CACHE, FRISCO_JUDGE_CACHE_FILE,
+// FRISCO_JUDGE_TIMEOUT, FRISCO_JUDGE_RETRIES, FRISCO_JUDGE_CONCURRENCY and
+// FRISCO_JUDGE_ON_FAILURE, over the settings in `base` (from a config file)
+export function judgeConfigFromEnv(env: NodeJS.ProcessEnv = process.env, base: Partial<JudgeConfig> = {}): JudgeConfig {
+  return {
+    ...base,
+    backend: env.FRISCO_JUDGE_BACKEND ? parseBackendKind(env.FRISCO_JUDGE_BACKEND) : base.backend ?? 'openai',
+    endpoint: env.FRISCO_JUDGE_ENDPOINT ?? base.endpoint,
+    model: env.FRISCO_JUDGE_MODEL ?? base.model,
+    apiKey: env.FRISCO_JUDGE_API_KEY ?? base.apiKey,
+    table: env.FRISCO_JUDGE_TABLE ?? base.table,
+    cache: env.FRISCO_JUDGE_CACHE ? parseCacheMode(env.FRISCO_JUDGE_CACHE) : base.cache,
+    cacheFile: env.FRISCO_JUDGE_CACHE_FILE ?? base.cacheFile,
+    timeoutMs: parseCount(env, 'FRISCO_JUDGE_TIMEOUT', 1) ?? base.timeoutMs,
+    retries: parseCount(env, 'FRISCO_JUDGE_RETRIES', 0) ?? base.retries,
+    concurrency: parseCount(env, 'FRISCO_JUDGE_CONCURRENCY', 1) ?? base.concurrency,
+    onFailure: env.FRISCO_JUDGE_ON_FAILURE ? parseFailurePolicy(env.FRISCO_JUDGE_ON_FAILURE) : base.onFailure,
+  };
+}
+
+// An integer setting of at least `min`, or undefined when unset
+function parseCount(env: NodeJS.ProcessEnv, name: string, min: number): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === '') return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new FriscoError(`${name} must be an integer of at least ${min}, got "${value}"`);
+  }
+  return count;
+}
+
+export function parseBackendKind(value: string): JudgeBackendKind {
+  if (!BACKEND_KINDS.includes(value as JudgeBackendKind)) {
+    throw new FriscoError(`Unknown judge backend "${value}" (expected one of ${BACKEND_KINDS.join(', ')})`);
+  }
+  return value as JudgeBackendKind;
+}
+
+export function parseCacheMode(value: string): JudgeCacheMode {
+  if (!CACHE_MODES.includes(value as JudgeCacheMode)) {
+    throw new FriscoError(`Unknown judge cache mode "${value}" (expected one of ${CACHE_MODES.join(', ')})`);
+  }
+  return value as JudgeCacheMode;
+}
+
+export function parseFailurePolicy(value: string): JudgeFailurePolicy {
+  if (!FAILURE_POLICIES.includes(value as JudgeFailurePolicy)) {
+    throw new FriscoError(`Unknown judge failure policy "${value}" (expected one of ${FAILURE_POLICIES.join(', ')})`);
+  }
+  return value as JudgeFailurePolicy;
+}
+
+export function parseSearchIndex(value: string): SearchIndexKind {
+  if (!SEARCH_INDEX_KINDS.includes(value as SearchIndexKind)) {
+    throw new FriscoError(`Unknown search index "${value}" (expected one of ${SEARCH_INDEX_KINDS.join(', ')})`);
+  }
+  return value as SearchIndexKind;
+}
+
+export function createSearchIndex(config: SearchConfig): SearchIndex {
+  switch (config.index) {
+    case 'lexical':
+      return new LexicalIndex();
+    case 'embedding': {
+      const backend = new EmbeddingBackend({ model: config.model });
+      return new EmbeddingIndex((texts) => backend.embed(texts));
+    }
+  }
+}
+
+// FRISCO_SEARCH_INDEX, FRISCO_SEARCH_LIMIT and FRISCO_SEARCH_MODEL, over the
+// settings in `base`
+export function searchConfigFromEnv(env: NodeJS.ProcessEnv = process.env, base: Partial<SearchConfig> = {}): SearchConfig {
+  const index = parseSearchIndex(env.FRISCO_SEARCH_INDEX ?? base.index ?? 'lexical');
+  const limit = env.FRISCO_SEARCH_LIMIT ? Number(env.FRISCO_SEARCH_LIMIT) : base.limit ?? DEFAULT_SEARCH_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new FriscoError(`FRISCO_SEARCH_LIMIT must be a positive integer, got "${env.FRISCO_SEARCH_LIMIT ?? limit}"`);
+  }
+  return { index, limit, model: env.FRISCO_SEARCH_MODEL ?? base.model };
+}
+
+// FRISCO_FUZZY: the t-norm of fuzzy evaluation, or null to evaluate crisply
+export function fuzzyLogicFromEnv(env: NodeJS.ProcessEnv = process.env, base: TNorm | null = null): TNorm | null {
+  return env.FRISCO_FUZZY ? parseTNorm(env.FRISCO_FUZZY) : base;
+}
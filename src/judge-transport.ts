@@ -0,0 +1,135 @@
+// HTTP transport of the chat judge backends: every request gets a timeout,
+// failed requests are retried with exponential backoff, and at most
+// `concurrency` requests are in flight per backend. A request that cannot be
+// completed raises a FriscoJudgeError; cancelling through the request's
+// AbortSignal stops it at once, without retries.
+
+import { FriscoCancelledError, FriscoJudgeError } from './errors.js';
+
+export type TransportOptions = {
+  // Per attempt, in milliseconds
+  timeoutMs?: number;
+  // Attempts after the first; only network errors, timeouts, 429 and 5xx are retried
+  retries?: number;
+  // Delay before the first retry, doubled before each further one
+  retryDelayMs?: number;
+  concurrency?: number;
+};
+
+export const DEFAULT_TRANSPORT: Required<TransportOptions> = {
+  timeoutMs: 30000,
+  retries: 2,
+  retryDelayMs: 500,
+  concurrency: 4,
+};
+
+export class JudgeTransport {
+  private readonly options: Required<TransportOptions>;
+  private active = 0;
+  private readonly queue: (() => void)[] = [];
+
+  constructor(options: TransportOptions = {}) {
+    this.options = { ...DEFAULT_TRANSPORT, ...withoutUndefined(options) };
+  }
+
+  // POST a JSON body and return the parsed JSON response
+  async postJSON(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<unknown> {
+    await this.acquire(signal);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.attempt(url, body, headers, signal);
+        } catch (error) {
+          if (!(error instanceof RetryableError) || attempt >= this.options.retries) {
+            throw error instanceof RetryableError ? new FriscoJudgeError(error.message) : error;
+          }
+          await sleep(this.options.retryDelayMs * 2 ** attempt, signal);
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  private async attempt(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal): Promise<unknown> {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new FriscoCancelledError();
+      if (timeout.aborted) throw new RetryableError(`Judge request to ${url} timed out after ${this.options.timeoutMs} ms`);
+      throw new RetryableError(`Judge request to ${url} failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      const message = `Judge request to ${url} failed: ${response.status} ${response.statusText}`;
+      if (response.status === 429 || response.status >= 500) throw new RetryableError(message);
+      throw new FriscoJudgeError(message);
+    }
+    try {
+      return await response.json();
+    } catch {
+      if (signal?.aborted) throw new FriscoCancelledError();
+      throw new FriscoJudgeError(`Judge at ${url} did not answer with JSON`);
+    }
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw new FriscoCancelledError();
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      };
+      const cancel = () => {
+        this.queue.splice(this.queue.indexOf(start), 1);
+        reject(new FriscoCancelledError());
+      };
+      this.queue.push(start);
+      signal?.addEventListener('abort', cancel, { once: true });
+    });
+  }
+
+  // Hand the slot straight to the next waiting request, if any
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// A failure worth another attempt
+class RetryableError extends Error {}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new FriscoCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new FriscoCancelledError());
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+}
+
+// The settings that are set, so that spreading them does not unset defaults
+export function withoutUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
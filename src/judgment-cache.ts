@@ -0,0 +1,101 @@
+// Persistent cache of judge answers, so a program judged once can be re-run
+// offline with the same results. Entries are keyed by operation, system prompt
+// and arguments (changing a prompt invalidates its entries) and stored one JSON
+// object per line.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FriscoJudgeError } from './errors.js';
+import { JudgeBackend, JudgeCacheMode, JudgeOperation, JudgeRequest, JudgeResponse } from './judge-backend.js';
+
+type CacheEntry = {
+  key: string;
+  operation: JudgeOperation;
+  args: string[];
+  response: Record<string, unknown>;
+};
+
+export class CachingBackend implements JudgeBackend {
+  private readonly backend: JudgeBackend;
+  private readonly mode: JudgeCacheMode;
+  private readonly file: string | undefined;
+  private readonly entries = new Map<string, Promise<JudgeResponse>>();
+
+  // Without a file the cache only lives as long as the backend
+  constructor(backend: JudgeBackend, mode: JudgeCacheMode = 'record', file?: string) {
+    this.backend = backend;
+    this.mode = mode;
+    this.file = file;
+
+    if (file) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      if (mode === 'refresh') {
+        fs.writeFileSync(file, '', 'utf-8');
+      } else if (fs.existsSync(file)) {
+        this.load(file);
+      }
+    }
+  }
+
+  async judge(request: JudgeRequest): Promise<JudgeResponse> {
+    const key = cacheKey(request);
+    const cached = this.entries.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.mode === 'replay') {
+      throw new FriscoJudgeError(`Judgment cache miss in replay mode: ${request.operation}(${request.args.map((arg) => JSON.stringify(arg)).join(', ')})`);
+    }
+
+    // Store the pending answer so identical questions asked meanwhile share it
+    const pending = this.backend.judge(request);
+    this.entries.set(key, pending);
+    let response: JudgeResponse;
+    try {
+      response = await pending;
+    } catch (error) {
+      // Failed judgments are not remembered; the next call asks again
+      this.entries.delete(key);
+      throw error;
+    }
+
+    if (response === null) {
+      this.entries.delete(key);
+    } else if (this.file) {
+      const entry: CacheEntry = { key, operation: request.operation, args: request.args, response };
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n', 'utf-8');
+    }
+    return response;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private load(file: string): void {
+    const lines = fs.readFileSync(file, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      const entry = JSON.parse(line) as CacheEntry;
+      this.entries.set(entry.key, Promise.resolve(entry.response));
+    }
+  }
+}
+
+export function cacheKey(request: JudgeRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.operation, request.systemPrompt, request.args]))
+    .digest('hex');
+}
+
+// hello.frisco -> hello.judgments.jsonl in the same directory; the REPL,
+// which has no program file, uses frisco.judgments.jsonl in the working directory
+export function defaultCacheFile(programPath?: string): string {
+  if (!programPath) {
+    return path.resolve('frisco.judgments.jsonl');
+  }
+  const parsed = path.parse(programPath);
+  return path.join(parsed.dir, `${parsed.name}.judgments.jsonl`);
+}
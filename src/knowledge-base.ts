@@ -0,0 +1,184 @@
+// Knowledge base storage shared by the Node and web executors
+
+import * as AST from './ast.js';
+import { FriscoRuntimeError } from './errors.js';
+
+export type KnowledgeBase = {
+  concepts: Map<string, AST.ConceptDeclaration>;
+  entities: Map<string, AST.EntityDeclaration>;
+  rules: AST.RuleDeclaration[];
+};
+
+export type ConsultOptions = {
+  // Drop the existing clauses of every predicate the program defines before adding its own
+  redefine?: boolean;
+};
+
+export function createKnowledgeBase(): KnowledgeBase {
+  return { concepts: new Map(), entities: new Map(), rules: [] };
+}
+
+// Merge the declarations of a program into a live knowledge base. Concepts and
+// entities replace earlier declarations of the same name, rules are appended
+// after the existing clauses and assignments overwrite global bindings.
+export function consultProgram(
+  kb: KnowledgeBase,
+  bindings: Map<string, AST.Term>,
+  program: AST.Program,
+  options: ConsultOptions = {}
+): void {
+  // Reject a program that would make a concept its own ancestor before changing anything
+  const concepts = new Map(kb.concepts);
+  const declared = program.statements.filter((s): s is AST.ConceptDeclaration => s.type === 'ConceptDeclaration');
+  declared.forEach((concept) => concepts.set(concept.name, concept));
+  declared.forEach((concept) => genusChain({ ...kb, concepts }, concept.name));
+
+  if (options.redefine) {
+    const redefined = new Set<string>();
+    for (const statement of program.statements) {
+      if (statement.type === 'RuleDeclaration') {
+        redefined.add(predicateKey(statement.head.name, statement.head.parameters.length));
+      }
+    }
+    kb.rules = kb.rules.filter((rule) => !redefined.has(predicateKey(rule.head.name, rule.head.parameters.length)));
+  }
+
+  for (const statement of program.statements) {
+    switch (statement.type) {
+      case 'ConceptDeclaration':
+        kb.concepts.set(statement.name, statement);
+        break;
+      case 'EntityDeclaration':
+        kb.entities.set(statement.name, statement);
+        break;
+      case 'RuleDeclaration':
+        kb.rules.push(statement);
+        break;
+      case 'Assignment':
+        bindings.set(statement.variable, { type: 'StringLiteral', value: statement.value });
+        break;
+    }
+  }
+}
+
+// Remove every clause of a predicate (of any arity when none is given).
+// Returns the number of clauses removed.
+export function abolishPredicate(kb: KnowledgeBase, name: string, arity?: number): number {
+  const before = kb.rules.length;
+  kb.rules = kb.rules.filter(
+    (rule) => rule.head.name !== name || (arity !== undefined && rule.head.parameters.length !== arity)
+  );
+  return before - kb.rules.length;
+}
+
+// A concept followed by its ancestors, nearest first. The chain ends at a
+// genus that is not declared; a concept that is its own ancestor is an error.
+export function genusChain(kb: KnowledgeBase, name: string): AST.ConceptDeclaration[] {
+  const chain: AST.ConceptDeclaration[] = [];
+  let concept = kb.concepts.get(name);
+  while (concept) {
+    if (chain.includes(concept)) {
+      const names = [...chain, concept].map((c) => c.name).join(' -> ');
+      throw new FriscoRuntimeError(`Genus cycle: ${names}`, concept.span);
+    }
+    chain.push(concept);
+    concept = concept.genus ? kb.concepts.get(concept.genus) : undefined;
+  }
+  return chain;
+}
+
+// A concept's attributes or essentials together with those it inherits,
+// most general first. Each concept down the chain drops the inherited entries
+// it excludes and adds its own.
+export function inheritedTraits(kb: KnowledgeBase, name: string, trait: 'attributes' | 'essentials'): string[] {
+  let traits: string[] = [];
+  for (const concept of genusChain(kb, name).reverse()) {
+    const own = trait === 'attributes' ? concept.attributes : concept.essentials;
+    const excluded = new Set(
+      (trait === 'attributes' ? concept.excludedAttributes : concept.excludedEssentials).map(normalizeTrait)
+    );
+    traits = traits.filter((entry) => !excluded.has(normalizeTrait(entry)));
+    for (const entry of own) {
+      if (!traits.some((existing) => normalizeTrait(existing) === normalizeTrait(entry))) {
+        traits.push(entry);
+      }
+    }
+  }
+  return traits;
+}
+
+// The value of `object.field` for a concept or entity, or null when there is none.
+// attributes and essentials include inherited entries; own_attributes are the
+// concept's own and all_attributes is an explicit alias of attributes.
+export function fieldValue(kb: KnowledgeBase, objectName: string, fieldName: string): string | string[] | null {
+  const concept = kb.concepts.get(objectName);
+  if (concept) {
+    if (fieldName === 'description' && concept.description) return concept.description;
+    if (fieldName === 'genus' && concept.genus) return concept.genus;
+    const traits = conceptTraitField(kb, concept, fieldName);
+    if (traits) return traits;
+  }
+
+  const entity = kb.entities.get(objectName);
+  if (entity) {
+    if (fieldName === 'description' && entity.description) return entity.description;
+    if (fieldName === 'concept' || fieldName === 'conceptType') return entity.conceptType;
+    // Check custom properties
+    if (entity.properties && entity.properties.has(fieldName)) {
+      return entity.properties.get(fieldName)!;
+    }
+    const entityConcept = kb.concepts.get(entity.conceptType);
+    if (entityConcept) {
+      const traits = conceptTraitField(kb, entityConcept, fieldName);
+      if (traits) return traits;
+      if (fieldName === 'genus' && entityConcept.genus) return entityConcept.genus;
+    }
+  }
+
+  return null;
+}
+
+// The fields of a concept or entity that have a value. Aliases (conceptType,
+// all_attributes) are left out.
+export function fieldNames(kb: KnowledgeBase, objectName: string): string[] {
+  const entity = kb.entities.get(objectName);
+  const candidates = [
+    'description',
+    'concept',
+    ...(entity ? entity.properties.keys() : []),
+    'genus',
+    'attributes',
+    'own_attributes',
+    'essentials',
+  ];
+  return [...new Set(candidates)].filter((name) => fieldValue(kb, objectName, name) !== null);
+}
+
+function conceptTraitField(kb: KnowledgeBase, concept: AST.ConceptDeclaration, fieldName: string): string[] | null {
+  switch (fieldName) {
+    case 'attributes':
+    case 'all_attributes':
+      return inheritedTraits(kb, concept.name, 'attributes');
+    case 'own_attributes':
+      return concept.attributes;
+    case 'essentials':
+      return inheritedTraits(kb, concept.name, 'essentials');
+    default:
+      return null;
+  }
+}
+
+function normalizeTrait(entry: string): string {
+  return entry.trim().toLowerCase();
+}
+
+// Parse a predicate indicator such as "mortal/1" or "mortal"
+export function parsePredicateIndicator(indicator: string): { name: string; arity?: number } | null {
+  const match = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:\/(\d+))?$/.exec(indicator.trim());
+  if (!match) return null;
+  return { name: match[1], arity: match[2] !== undefined ? Number(match[2]) : undefined };
+}
+
+function predicateKey(name: string, arity: number): string {
+  return `${name}/${arity}`;
+}
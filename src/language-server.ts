@@ -0,0 +1,438 @@
+// Language server for .frisco files (`frisco lsp`): LSP over stdio, that is
+// JSON-RPC messages framed by Content-Length headers. Each request re-parses
+// the document it is about, so the only state is the open documents' text.
+
+import * as AST from './ast.js';
+import { Lexer, Token, TokenType } from './lexer.js';
+import { parseSource } from './parser.js';
+import { FriscoError } from './errors.js';
+import { checkProgram } from './analyzer.js';
+import { builtinArities, builtinNames, isBuiltin } from './builtins.js';
+import { KnowledgeBase, createKnowledgeBase, fieldNames, inheritedTraits } from './knowledge-base.js';
+import { HighlightKind, classifySource } from './highlighting.js';
+
+export type Position = { line: number; character: number };
+export type Range = { start: Position; end: Position };
+export type Location = { uri: string; range: Range };
+
+export type Message = {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+type TextDocumentParams = { textDocument: { uri: string; text?: string } };
+type PositionParams = TextDocumentParams & { position: Position };
+type ChangeParams = TextDocumentParams & { contentChanges: { text: string }[] };
+
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+
+// LSP enumerations used below
+const DiagnosticSeverity = { error: 1, warning: 2 } as const;
+const CompletionItemKind = { Function: 3, Field: 5, Class: 7, Keyword: 14, EnumMember: 20 } as const;
+const SymbolKind = { Class: 5, Function: 12, Variable: 13, Object: 19 } as const;
+
+// Semantic token types and modifiers, indexed by position
+const TOKEN_TYPES = ['keyword', 'operator', 'string', 'number', 'comment', 'variable', 'function', 'class', 'enumMember', 'property'];
+const TOKEN_MODIFIERS = ['defaultLibrary'];
+const TOKEN_TYPE_OF: Record<HighlightKind, string> = {
+  keyword: 'keyword',
+  operator: 'operator',
+  string: 'string',
+  number: 'number',
+  comment: 'comment',
+  variable: 'variable',
+  predicate: 'function',
+  builtin: 'function',
+  concept: 'class',
+  entity: 'enumMember',
+  atom: 'enumMember',
+  property: 'property',
+};
+
+const KEYWORDS = ['concept', 'entity', 'description', 'attributes', 'essentials', 'not', 'is', 'mod'];
+// Fields every concept or entity may have, offered after `x.` when x is a variable
+const COMMON_FIELDS = ['description', 'attributes', 'essentials', 'genus', 'concept'];
+
+// A parsed document and the declarations it makes
+type Document = {
+  uri: string;
+  source: string;
+  program: AST.Program;
+  tokens: Token[];
+  kb: KnowledgeBase;
+};
+
+export class LanguageServer {
+  private documents = new Map<string, string>();
+  private send: (message: Message) => void;
+  private exit: (code: number) => void;
+  private shutdownRequested = false;
+
+  constructor(send: (message: Message) => void, exit: (code: number) => void = () => {}) {
+    this.send = send;
+    this.exit = exit;
+  }
+
+  handle(message: Message): void {
+    const { id, method } = message;
+    if (!method) return;
+    try {
+      const result = this.dispatch(method, message.params);
+      if (id !== undefined && id !== null) {
+        if (result === undefined) {
+          this.send({ jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: `Unhandled method ${method}` } });
+        } else {
+          this.send({ jsonrpc: '2.0', id, result });
+        }
+      }
+    } catch (error) {
+      if (id !== undefined && id !== null) {
+        const text = error instanceof Error ? error.message : String(error);
+        this.send({ jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: text } });
+      }
+    }
+  }
+
+  // The result of a request (null when there is nothing to answer), or
+  // undefined for a method the server does not handle
+  private dispatch(method: string, params: unknown): unknown {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            textDocumentSync: 1, // full text on every change
+            definitionProvider: true,
+            hoverProvider: true,
+            completionProvider: { triggerCharacters: ['.'] },
+            documentSymbolProvider: true,
+            semanticTokensProvider: { legend: { tokenTypes: TOKEN_TYPES, tokenModifiers: TOKEN_MODIFIERS }, full: true },
+          },
+          serverInfo: { name: 'frisco' },
+        };
+      case 'initialized':
+        return null;
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'exit':
+        this.exit(this.shutdownRequested ? 0 : 1);
+        return null;
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as TextDocumentParams;
+        this.documents.set(textDocument.uri, textDocument.text ?? '');
+        this.publishDiagnostics(textDocument.uri);
+        return null;
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as ChangeParams;
+        const last = contentChanges[contentChanges.length - 1];
+        if (last) this.documents.set(textDocument.uri, last.text);
+        this.publishDiagnostics(textDocument.uri);
+        return null;
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = params as TextDocumentParams;
+        this.documents.delete(textDocument.uri);
+        this.send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri: textDocument.uri, diagnostics: [] } });
+        return null;
+      }
+      case 'textDocument/definition':
+        return this.definition(params as PositionParams);
+      case 'textDocument/hover':
+        return this.hover(params as PositionParams);
+      case 'textDocument/completion':
+        return this.completion(params as PositionParams);
+      case 'textDocument/documentSymbol':
+        return this.documentSymbols(params as TextDocumentParams);
+      case 'textDocument/semanticTokens/full':
+        return this.semanticTokens(params as TextDocumentParams);
+      default:
+        return undefined;
+    }
+  }
+
+  private document(uri: string): Document | null {
+    const source = this.documents.get(uri);
+    if (source === undefined) return null;
+    const { program } = parseSource(source, uri);
+    const { tokens } = new Lexer(source, uri).tokenizeWithComments();
+    const kb = createKnowledgeBase();
+    for (const statement of program.statements) {
+      if (statement.type === 'ConceptDeclaration') kb.concepts.set(statement.name, statement);
+      if (statement.type === 'EntityDeclaration') kb.entities.set(statement.name, statement);
+      if (statement.type === 'RuleDeclaration') kb.rules.push(statement);
+    }
+    return { uri, source, program, tokens, kb };
+  }
+
+  // Syntax errors, then the findings of `frisco check`
+  private publishDiagnostics(uri: string): void {
+    const source = this.documents.get(uri) ?? '';
+    const { program, errors } = parseSource(source, uri);
+    const diagnostics = [
+      ...errors.map((error: FriscoError) => ({
+        range: toRange(error.span),
+        severity: DiagnosticSeverity.error,
+        source: 'frisco',
+        message: error.reason,
+      })),
+      ...checkProgram(program).map((finding) => ({
+        range: toRange(finding.span),
+        severity: DiagnosticSeverity[finding.severity],
+        code: finding.code,
+        source: 'frisco',
+        message: finding.message,
+      })),
+    ];
+    this.send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, diagnostics } });
+  }
+
+  // Where the concept, entity or predicate named under the cursor is declared
+  private definition({ textDocument, position }: PositionParams): Location[] | null {
+    const doc = this.document(textDocument.uri);
+    const at = doc && tokenAt(doc.tokens, position);
+    if (!doc || !at) return null;
+    const { token, next } = at;
+
+    if (next?.type !== TokenType.LPAREN) {
+      const declaration = doc.kb.concepts.get(token.value) ?? doc.kb.entities.get(token.value);
+      if (declaration) return [{ uri: doc.uri, range: toRange(declaration.span) }];
+    }
+    const clauses = doc.kb.rules.filter((rule) => rule.head.name === token.value);
+    return clauses.length > 0 ? clauses.map((rule) => ({ uri: doc.uri, range: toRange(rule.head.span) })) : null;
+  }
+
+  private hover({ textDocument, position }: PositionParams): { contents: { kind: 'markdown'; value: string }; range: Range } | null {
+    const doc = this.document(textDocument.uri);
+    const at = doc && tokenAt(doc.tokens, position);
+    if (!doc || !at) return null;
+    const { token, next } = at;
+    const lines: string[] = [];
+
+    const concept = doc.kb.concepts.get(token.value);
+    const entity = doc.kb.entities.get(token.value);
+    if (next?.type === TokenType.LPAREN && (isBuiltin(token.value) || doc.kb.rules.some((rule) => rule.head.name === token.value))) {
+      lines.push(...describePredicate(doc.kb, token.value));
+    } else if (concept) {
+      lines.push(`**concept ${concept.name}**${concept.genus ? `: ${concept.genus}` : ''}`);
+      if (concept.description) lines.push('', concept.description);
+      lines.push(...describeTraits(doc.kb, concept.name));
+    } else if (entity) {
+      lines.push(`**entity ${entity.name}**: ${entity.conceptType}`);
+      if (entity.description) lines.push('', entity.description);
+      for (const [name, value] of entity.properties) lines.push('', `${name}: ${value}`);
+    } else {
+      return null;
+    }
+    return { contents: { kind: 'markdown', value: lines.join('\n') }, range: tokenRange(token) };
+  }
+
+  private completion({ textDocument, position }: PositionParams): { label: string; kind: number; detail?: string }[] {
+    const doc = this.document(textDocument.uri);
+    if (!doc) return [];
+
+    // After `object.`, the fields of the object
+    const line = doc.source.split('\n')[position.line] ?? '';
+    const field = /([A-Za-z_][A-Za-z0-9_]*)\.[A-Za-z_]*$/.exec(line.slice(0, position.character));
+    if (field) {
+      const object = field[1];
+      const names = doc.kb.concepts.has(object) || doc.kb.entities.has(object) ? fieldNames(doc.kb, object) : COMMON_FIELDS;
+      return names.map((name) => ({ label: name, kind: CompletionItemKind.Field }));
+    }
+
+    const predicates = new Map<string, Set<number>>();
+    for (const rule of doc.kb.rules) {
+      predicates.set(rule.head.name, (predicates.get(rule.head.name) ?? new Set()).add(rule.head.parameters.length));
+    }
+    return [
+      ...KEYWORDS.map((label) => ({ label, kind: CompletionItemKind.Keyword })),
+      ...builtinNames().map((label) => ({ label, kind: CompletionItemKind.Function, detail: 'builtin' })),
+      ...[...predicates].map(([label, arities]) => ({
+        label,
+        kind: CompletionItemKind.Function,
+        detail: [...arities].map((arity) => `${label}/${arity}`).join(', '),
+      })),
+      ...[...doc.kb.concepts.keys()].map((label) => ({ label, kind: CompletionItemKind.Class, detail: 'concept' })),
+      ...[...doc.kb.entities.values()].map((entity) => ({ label: entity.name, kind: CompletionItemKind.EnumMember, detail: entity.conceptType })),
+    ];
+  }
+
+  private documentSymbols({ textDocument }: TextDocumentParams): unknown[] | null {
+    const doc = this.document(textDocument.uri);
+    if (!doc) return null;
+    const symbols: unknown[] = [];
+    for (const statement of doc.program.statements) {
+      const range = toRange(statement.span);
+      switch (statement.type) {
+        case 'ConceptDeclaration':
+          symbols.push({
+            name: statement.name,
+            detail: statement.genus ?? 'concept',
+            kind: SymbolKind.Class,
+            range,
+            selectionRange: nameRange(doc.tokens, statement.span, statement.name),
+          });
+          break;
+        case 'EntityDeclaration':
+          symbols.push({
+            name: statement.name,
+            detail: statement.conceptType,
+            kind: SymbolKind.Object,
+            range,
+            selectionRange: nameRange(doc.tokens, statement.span, statement.name),
+          });
+          break;
+        case 'RuleDeclaration':
+          symbols.push({
+            name: `${statement.head.name}/${statement.head.parameters.length}`,
+            detail: statement.body.length === 0 ? 'fact' : 'rule',
+            kind: SymbolKind.Function,
+            range,
+            selectionRange: toRange(statement.head.span),
+          });
+          break;
+        case 'Assignment':
+          symbols.push({
+            name: statement.variable,
+            detail: statement.value,
+            kind: SymbolKind.Variable,
+            range,
+            selectionRange: nameRange(doc.tokens, statement.span, statement.variable),
+          });
+          break;
+      }
+    }
+    return symbols;
+  }
+
+  // Each token as five numbers: line and start relative to the previous
+  // token, length, type index and modifier bits
+  private semanticTokens({ textDocument }: TextDocumentParams): { data: number[] } | null {
+    const source = this.documents.get(textDocument.uri);
+    if (source === undefined) return null;
+    const data: number[] = [];
+    let line = 0;
+    let character = 0;
+    for (const token of classifySource(source)) {
+      const tokenLine = token.line - 1;
+      const tokenCharacter = token.column - 1;
+      data.push(
+        tokenLine - line,
+        tokenLine === line ? tokenCharacter - character : tokenCharacter,
+        token.length,
+        TOKEN_TYPES.indexOf(TOKEN_TYPE_OF[token.kind]),
+        token.kind === 'builtin' ? 1 : 0
+      );
+      line = tokenLine;
+      character = tokenCharacter;
+    }
+    return { data };
+  }
+}
+
+// Serve over stdin and stdout until the client sends `exit`
+export function startLanguageServer(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout): void {
+  const send = (message: Message) => {
+    const body = JSON.stringify(message);
+    output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  };
+  const server = new LanguageServer(send, (code) => process.exit(code));
+
+  let buffer = Buffer.alloc(0);
+  input.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+      const length = /Content-Length: *(\d+)/i.exec(buffer.subarray(0, headerEnd).toString('ascii'));
+      if (!length) {
+        // Not a message header; drop it
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const start = headerEnd + 4;
+      const end = start + Number(length[1]);
+      if (buffer.length < end) return;
+      const body = buffer.subarray(start, end).toString('utf-8');
+      buffer = buffer.subarray(end);
+      let message: Message;
+      try {
+        message = JSON.parse(body) as Message;
+      } catch (error) {
+        // The id of a message that does not parse is unknown
+        send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: `Parse error: ${error instanceof Error ? error.message : error}` } });
+        continue;
+      }
+      server.handle(message);
+    }
+  });
+}
+
+function describePredicate(kb: KnowledgeBase, name: string): string[] {
+  if (isBuiltin(name)) {
+    const arities = builtinArities(name);
+    return [`**builtin ${arities ? arities.map((arity) => `${name}/${arity}`).join(', ') : name}**`];
+  }
+  const clauses = kb.rules.filter((rule) => rule.head.name === name);
+  const arities = [...new Set(clauses.map((rule) => rule.head.parameters.length))];
+  return [`**${arities.map((arity) => `${name}/${arity}`).join(', ')}**`, '', `${clauses.length} clause${clauses.length === 1 ? '' : 's'}`];
+}
+
+// Attributes and essentials, inherited ones included
+function describeTraits(kb: KnowledgeBase, name: string): string[] {
+  try {
+    const lines: string[] = [];
+    const attributes = inheritedTraits(kb, name, 'attributes');
+    const essentials = inheritedTraits(kb, name, 'essentials');
+    if (attributes.length > 0) lines.push('', `attributes: ${attributes.join(', ')}`);
+    if (essentials.length > 0) lines.push('', `essentials: ${essentials.join(', ')}`);
+    return lines;
+  } catch {
+    // A genus cycle, reported as a diagnostic
+    return [];
+  }
+}
+
+// The identifier or keyword under the cursor, with the token after it
+function tokenAt(tokens: Token[], position: Position): { token: Token; next: Token | undefined } | null {
+  const line = position.line + 1;
+  const column = position.character + 1;
+  const index = tokens.findIndex(
+    (token) =>
+      (token.type === TokenType.IDENTIFIER || token.type === TokenType.CONCEPT || token.type === TokenType.ENTITY) &&
+      token.line === line &&
+      token.column <= column &&
+      column <= token.endColumn
+  );
+  return index === -1 ? null : { token: tokens[index], next: tokens[index + 1] };
+}
+
+// The range of the first `name` token inside a statement
+function nameRange(tokens: Token[], span: AST.SourceSpan | undefined, name: string): Range {
+  const token = span && tokens.find(
+    (t) => t.value === name && (t.line > span.start.line || (t.line === span.start.line && t.column >= span.start.column))
+  );
+  return token ? tokenRange(token) : toRange(span);
+}
+
+function tokenRange(token: Token): Range {
+  return {
+    start: { line: token.line - 1, character: token.column - 1 },
+    end: { line: token.endLine - 1, character: token.endColumn - 1 },
+  };
+}
+
+// LSP positions count lines and characters from 0
+function toRange(span: AST.SourceSpan | undefined): Range {
+  if (!span) return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+  return {
+    start: { line: span.start.line - 1, character: span.start.column - 1 },
+    end: { line: span.end.line - 1, character: span.end.column - 1 },
+  };
+}
@@ -1,3 +1,5 @@
+import { FriscoSyntaxError } from './errors.js';
+
 export enum TokenType {
   CONCEPT = 'CONCEPT',
   ENTITY = 'ENTITY',
@@ -8,6 +10,20 @@ export enum TokenType {
   ASSIGN = 'ASSIGN',
   EQUAL_EQUAL = 'EQUAL_EQUAL',
   SEMANTIC_MATCH = 'SEMANTIC_MATCH',
+  AT = 'AT',
+  IS = 'IS',
+  LESS = 'LESS',
+  GREATER = 'GREATER',
+  LESS_EQUAL = 'LESS_EQUAL',
+  GREATER_EQUAL = 'GREATER_EQUAL',
+  ARITH_EQUAL = 'ARITH_EQUAL',
+  ARITH_NOT_EQUAL = 'ARITH_NOT_EQUAL',
+  PLUS = 'PLUS',
+  MINUS = 'MINUS',
+  STAR = 'STAR',
+  SLASH = 'SLASH',
+  INT_DIVIDE = 'INT_DIVIDE',
+  MOD = 'MOD',
   IMPLIES = 'IMPLIES',
   BAR = 'BAR',
   SEMICOLON = 'SEMICOLON',
@@ -26,6 +42,7 @@ export enum TokenType {
 
   IDENTIFIER = 'IDENTIFIER',
   STRING = 'STRING',
+  NUMBER = 'NUMBER',
 
   EOF = 'EOF',
 }
@@ -38,16 +55,34 @@ export type Token = {
   value: string;
   line: number;
   column: number;
+  // Position just past the token
+  endLine: number;
+  endColumn: number;
+};
+
+// A `#` comment, kept only for tools that rewrite source (frisco fmt)
+export type Comment = {
+  // The comment from its `#` to the end of the line
+  text: string;
+  line: number;
+  column: number;
 };
 
 export class Lexer {
   private input: string;
+  private file: string | undefined;
   private position = 0;
   private line = 1;
   private column = 1;
+  // Set while tokenizing with recovery: errors are collected here instead of thrown
+  private errors: FriscoSyntaxError[] | null = null;
+  // Set while tokenizing with comments: comments are collected here
+  private comments: Comment[] | null = null;
 
-  constructor(input: string) {
+  // `file` names the source in diagnostics
+  constructor(input: string, file?: string) {
     this.input = input;
+    this.file = file;
   }
 
   private peek(offset = 0): string | null {
@@ -77,9 +112,13 @@ export class Lexer {
 
   private skipComment(): void {
     if (this.peek() === '#') {
+      const line = this.line;
+      const column = this.column;
+      let text = '';
       while (this.peek() !== null && this.peek() !== '\n') {
-        this.advance();
+        text += this.advance();
       }
+      this.comments?.push({ text: text.trimEnd(), line, column });
     }
   }
 
@@ -105,6 +144,21 @@ export class Lexer {
     return result;
   }
 
+  private readNumber(): string {
+    let result = '';
+    while (this.peek() !== null && /[0-9]/.test(this.peek()!)) {
+      result += this.advance();
+    }
+    // A dot is a decimal point only when a digit follows; otherwise it ends the statement
+    if (this.peek() === '.' && this.peek(1) !== null && /[0-9]/.test(this.peek(1)!)) {
+      result += this.advance();
+      while (this.peek() !== null && /[0-9]/.test(this.peek()!)) {
+        result += this.advance();
+      }
+    }
+    return result;
+  }
+
   private readIdentifier(): string {
     let result = '';
     while (this.peek() !== null && /[a-zA-Z0-9_]/.test(this.peek()!)) {
@@ -121,6 +175,8 @@ export class Lexer {
       attributes: TokenType.ATTRIBUTES,
       essentials: TokenType.ESSENTIALS,
       not: TokenType.NEGATION,
+      is: TokenType.IS,
+      mod: TokenType.MOD,
     };
 
     if (keywords[text]) {
@@ -130,6 +186,33 @@ export class Lexer {
     return TokenType.IDENTIFIER;
   }
 
+  // Tokenize the whole input, skipping characters that start no token and
+  // reporting each of them instead of stopping at the first
+  public tokenizeWithRecovery(): { tokens: Token[]; errors: FriscoSyntaxError[] } {
+    const errors: FriscoSyntaxError[] = [];
+    this.errors = errors;
+    try {
+      return { tokens: this.tokenize(), errors };
+    } finally {
+      this.errors = null;
+    }
+  }
+
+  // Tokenize the whole input with recovery, returning its comments alongside
+  // the tokens
+  public tokenizeWithComments(): { tokens: Token[]; comments: Comment[]; errors: FriscoSyntaxError[] } {
+    const comments: Comment[] = [];
+    const errors: FriscoSyntaxError[] = [];
+    this.comments = comments;
+    this.errors = errors;
+    try {
+      return { tokens: this.tokenize(), comments, errors };
+    } finally {
+      this.comments = null;
+      this.errors = null;
+    }
+  }
+
   public tokenize(): Token[] {
     const tokens: Token[] = [];
 
@@ -147,7 +230,7 @@ export class Lexer {
 
       if (char === '"') {
         const value = this.readString();
-        tokens.push({ type: TokenType.STRING, value, line, column });
+        tokens.push({ type: TokenType.STRING, value, line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
@@ -155,21 +238,36 @@ export class Lexer {
         this.advance();
         this.advance();
         this.advance();
-        tokens.push({ type: TokenType.SEMANTIC_MATCH, value: '=~=', line, column });
+        tokens.push({ type: TokenType.SEMANTIC_MATCH, value: '=~=', line, column, endLine: this.line, endColumn: this.column });
+        continue;
+      }
+
+      const arithmetic: Array<[string, TokenType]> = [
+        ['=:=', TokenType.ARITH_EQUAL],
+        ['=\\=', TokenType.ARITH_NOT_EQUAL],
+        ['=<', TokenType.LESS_EQUAL],
+        ['>=', TokenType.GREATER_EQUAL],
+        ['//', TokenType.INT_DIVIDE],
+      ];
+      const operator = arithmetic.find(([text]) => this.input.startsWith(text, this.position));
+      if (operator) {
+        const [text, type] = operator;
+        for (let i = 0; i < text.length; i++) this.advance();
+        tokens.push({ type, value: text, line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
       if (char === ':' && this.peek(1) === '-') {
         this.advance();
         this.advance();
-        tokens.push({ type: TokenType.IMPLIES, value: ':-', line, column });
+        tokens.push({ type: TokenType.IMPLIES, value: ':-', line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
       if (char === '-' && this.peek(1) === '>') {
         this.advance();
         this.advance();
-        tokens.push({ type: TokenType.IF_THEN, value: '->', line, column });
+        tokens.push({ type: TokenType.IF_THEN, value: '->', line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
@@ -177,7 +275,7 @@ export class Lexer {
       if (char === '=' && this.peek(1) === '=') {
         this.advance();
         this.advance();
-        tokens.push({ type: TokenType.EQUAL_EQUAL, value: '==', line, column });
+        tokens.push({ type: TokenType.EQUAL_EQUAL, value: '==', line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
@@ -194,26 +292,48 @@ export class Lexer {
         '|': TokenType.BAR,
         ';': TokenType.SEMICOLON,
         '!': TokenType.CUT,
+        '@': TokenType.AT,
+        '<': TokenType.LESS,
+        '>': TokenType.GREATER,
+        '+': TokenType.PLUS,
+        '-': TokenType.MINUS,
+        '*': TokenType.STAR,
+        '/': TokenType.SLASH,
       };
 
 
       if (char && single[char]) {
-        tokens.push({ type: single[char], value: char, line, column });
         this.advance();
+        tokens.push({ type: single[char], value: char, line, column, endLine: this.line, endColumn: this.column });
+        continue;
+      }
+
+      if (char !== null && /[0-9]/.test(char)) {
+        const text = this.readNumber();
+        tokens.push({ type: TokenType.NUMBER, value: text, line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
       if (char !== null && /[a-zA-Z_]/.test(char)) {
         const text = this.readIdentifier();
         const type = this.getKeywordOrIdentifier(text);
-        tokens.push({ type, value: text, line, column });
+        tokens.push({ type, value: text, line, column, endLine: this.line, endColumn: this.column });
         continue;
       }
 
-      throw new Error(`Unexpected character '${char}' at line ${line}, column ${column}`);
+      const error = new FriscoSyntaxError(`Unexpected character '${char}'`, {
+        start: { line, column },
+        end: { line, column: column + 1 },
+        source: { text: this.input, file: this.file },
+      });
+      if (!this.errors) {
+        throw error;
+      }
+      this.errors.push(error);
+      this.advance();
     }
 
-    tokens.push({ type: TokenType.EOF, value: '', line: this.line, column: this.column });
+    tokens.push({ type: TokenType.EOF, value: '', line: this.line, column: this.column, endLine: this.line, endColumn: this.column });
     return tokens;
   }
 }
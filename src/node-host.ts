@@ -0,0 +1,47 @@
+// The Node pieces of the engine: readln/1 reads standard input and consult/1
+// reads the local disk. The CLI and the REPL hand these to the Executor.
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { FileSystem } from './executor.js';
+
+// One reader serves every question: an interface per question would drop the
+// lines it had already buffered from piped input. Between questions standard
+// input is paused and unreferenced so it does not keep the process alive.
+let reader: readline.Interface | null = null;
+let stdinClosed = false;
+const bufferedLines: string[] = [];
+let waiting: ((line: string) => void) | null = null;
+
+export async function readStdinLine(prompt?: string): Promise<string> {
+  if (prompt) process.stdout.write(prompt);
+  if (bufferedLines.length > 0) return bufferedLines.shift()!;
+  if (stdinClosed) return '';
+  if (!reader) {
+    reader = readline.createInterface({ input: process.stdin });
+    reader.on('line', (line) => (waiting ? answer(line) : bufferedLines.push(line)));
+    reader.on('close', () => {
+      stdinClosed = true;
+      answer('');
+    });
+  } else {
+    reader.resume();
+  }
+  process.stdin.ref();
+  return new Promise((resolve) => {
+    waiting = resolve;
+  });
+}
+
+function answer(line: string): void {
+  const resolve = waiting;
+  waiting = null;
+  reader?.pause();
+  process.stdin.unref();
+  resolve?.(line);
+}
+
+// Relative paths are resolved against the working directory
+export const nodeFileSystem: FileSystem = {
+  readFile: (path) => fs.promises.readFile(path, 'utf-8'),
+};
@@ -1,12 +1,44 @@
-import { Token, TokenType } from './lexer.js';
+import { Lexer, Token, TokenType } from './lexer.js';
 import * as AST from './ast.js';
+import { FriscoSyntaxError } from './errors.js';
+
+// A program with every statement that parsed, and the syntax errors for the rest
+export type ParseResult = {
+  program: AST.Program;
+  errors: FriscoSyntaxError[];
+};
+
+// Lex and parse `source`, recovering from errors in both
+export function parseSource(source: string, file?: string): ParseResult {
+  const lexed = new Lexer(source, file).tokenizeWithRecovery();
+  const parsed = new Parser(lexed.tokens, { text: source, file }).parseWithRecovery();
+  const errors = [...lexed.errors, ...parsed.errors].sort(
+    (a, b) => a.span!.start.line - b.span!.start.line || a.span!.start.column - b.span!.start.column
+  );
+  return { program: parsed.program, errors };
+}
+
+// Keywords that can still name an entity property (entity X: C, concept = "...")
+const KEYWORD_TOKENS = new Set<TokenType>([
+  TokenType.CONCEPT,
+  TokenType.ENTITY,
+  TokenType.DESCRIPTION,
+  TokenType.ATTRIBUTES,
+  TokenType.ESSENTIALS,
+  TokenType.NEGATION,
+  TokenType.IS,
+  TokenType.MOD,
+]);
 
 export class Parser {
   private tokens: Token[];
+  private source: AST.SourceText | undefined;
   private position = 0;
 
-  constructor(tokens: Token[]) {
+  // `source` is the text the tokens came from; spans keep it for diagnostics
+  constructor(tokens: Token[], source?: AST.SourceText) {
     this.tokens = tokens;
+    this.source = source;
   }
 
   private peek(offset = 0): Token {
@@ -32,23 +64,88 @@ export class Parser {
   private expect(type: TokenType): Token {
     const token = this.peek();
     if (token.type !== type) {
-      throw new Error(`Expected ${type} but got ${token.type} at line ${token.line}, column ${token.column}`);
+      throw new FriscoSyntaxError(`Expected ${type} but got ${token.type}`, this.tokenSpan(token));
     }
     return this.advance();
   }
 
+  private tokenSpan(token: Token): AST.SourceSpan {
+    return {
+      start: { line: token.line, column: token.column },
+      end: { line: token.endLine, column: token.endColumn },
+      source: this.source,
+    };
+  }
+
+  // Give `node` the span from `start` to the end of the last consumed token
+  private located<T extends object>(start: Token, node: T): T {
+    const last = this.tokens[Math.max(0, this.position - 1)];
+    return AST.withSpan(node, {
+      start: { line: start.line, column: start.column },
+      end: { line: last.endLine, column: last.endColumn },
+      source: this.source,
+    });
+  }
+
+  // Parse the program, throwing the first syntax error
   public parse(): AST.Program {
+    const { program, errors } = this.parseWithRecovery();
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+    return program;
+  }
+
+  // Parse the program, skipping each statement that has a syntax error and
+  // carrying on with the next one, so that a single pass reports every error
+  public parseWithRecovery(): ParseResult {
+    const programStart = this.peek();
     const statements: AST.Statement[] = [];
+    const errors: FriscoSyntaxError[] = [];
+    while (!this.check(TokenType.EOF)) {
+      const start = this.peek();
+      const startPosition = this.position;
+      try {
+        statements.push(this.located(start, this.parseStatement()));
+      } catch (error) {
+        if (!(error instanceof FriscoSyntaxError)) {
+          throw error;
+        }
+        errors.push(error);
+        this.synchronize(startPosition);
+      }
+    }
+    return { program: this.located(programStart, { type: 'Program', statements }), errors };
+  }
+
+  // Skip past the end of the broken statement: its closing `.` (but not a
+  // field access dot), or up to the next `concept`, `entity`, `?` or a `:-`
+  // that opens a line, which starts a directive
+  private synchronize(statementStart: number): void {
+    if (this.position === statementStart && !this.check(TokenType.EOF)) {
+      this.advance();
+    }
     while (!this.check(TokenType.EOF)) {
-      statements.push(this.parseStatement());
+      if ((this.check(TokenType.CONCEPT) || this.check(TokenType.ENTITY) || this.check(TokenType.QUERY)) && !this.isKeywordFunctor()) {
+        return;
+      }
+      const previous = this.tokens[this.position - 1];
+      if (this.check(TokenType.IMPLIES) && previous && previous.endLine < this.peek().line) {
+        return;
+      }
+      const endsStatement = this.check(TokenType.DOT) && !(previous && this.isFieldAccessDot(previous));
+      this.advance();
+      if (endsStatement) {
+        return;
+      }
     }
-    return { type: 'Program', statements };
   }
 
   private parseStatement(): AST.Statement {
     if (this.check(TokenType.CONCEPT)) return this.parseConceptDeclaration();
     if (this.check(TokenType.ENTITY)) return this.parseEntityDeclaration();
     if (this.check(TokenType.QUERY)) return this.parseQuery();
+    if (this.check(TokenType.IMPLIES)) return this.parseDirective();
     if (this.check(TokenType.IDENTIFIER) && this.peek(1).type === TokenType.LPAREN) {
       // Check if it's a fact (ends with DOT) or rule (has IMPLIES)
       const startPos = this.position;
@@ -72,54 +169,53 @@ export class Parser {
   private parseConceptDeclaration(): AST.ConceptDeclaration {
     this.expect(TokenType.CONCEPT);
     const name = this.expect(TokenType.IDENTIFIER).value;
+    const concept: AST.ConceptDeclaration = {
+      type: 'ConceptDeclaration',
+      name,
+      genus: null,
+      description: null,
+      attributes: [],
+      essentials: [],
+      excludedAttributes: [],
+      excludedEssentials: [],
+    };
 
-    let genus: string | null = null;
     if (this.match(TokenType.COLON)) {
-      if (this.check(TokenType.IDENTIFIER) && this.peek(1).type === TokenType.COMMA) {
-        genus = this.expect(TokenType.IDENTIFIER).value;
-        this.expect(TokenType.COMMA);
-      } else {
-        genus = null;
-      }
-
-      // parse comma-separated properties
-      let description: string | null = null;
-      let attributes: string[] = [];
-      let essentials: string[] = [];
-
-      // parse first property
-      if (this.match(TokenType.DESCRIPTION)) {
-        this.expect(TokenType.ASSIGN);
-        description = this.expect(TokenType.STRING).value;
-      } else if (this.match(TokenType.ATTRIBUTES)) {
-        this.expect(TokenType.ASSIGN);
-        attributes = this.parseStringArray();
-      } else if (this.match(TokenType.ESSENTIALS)) {
-        this.expect(TokenType.ASSIGN);
-        essentials = this.parseIdentifierOrStringArray();
+      // An optional genus, then comma-separated properties
+      if (this.check(TokenType.IDENTIFIER) && (this.peek(1).type === TokenType.COMMA || this.peek(1).type === TokenType.DOT)) {
+        concept.genus = this.expect(TokenType.IDENTIFIER).value;
+        if (!this.check(TokenType.DOT)) {
+          this.expect(TokenType.COMMA);
+        }
       }
 
-      // then comma-separated
-      while (this.match(TokenType.COMMA)) {
-        if (this.match(TokenType.DESCRIPTION)) {
-          this.expect(TokenType.ASSIGN);
-          description = this.expect(TokenType.STRING).value;
-        } else if (this.match(TokenType.ATTRIBUTES)) {
-          this.expect(TokenType.ASSIGN);
-          attributes = this.parseStringArray();
-        } else if (this.match(TokenType.ESSENTIALS)) {
-          this.expect(TokenType.ASSIGN);
-          essentials = this.parseIdentifierOrStringArray();
+      if (!this.check(TokenType.DOT)) {
+        this.parseConceptProperty(concept);
+        while (this.match(TokenType.COMMA)) {
+          this.parseConceptProperty(concept);
         }
       }
 
       this.expect(TokenType.DOT);
-      return { type: 'ConceptDeclaration', name, genus, description, attributes, essentials };
+      return concept;
     }
 
     // old style fallback, but we can remove it since we're updating
     this.match(TokenType.DOT);
-    return { type: 'ConceptDeclaration', name, genus: null, description: null, attributes: [], essentials: [] };
+    return concept;
+  }
+
+  private parseConceptProperty(concept: AST.ConceptDeclaration): void {
+    if (this.match(TokenType.DESCRIPTION)) {
+      this.expect(TokenType.ASSIGN);
+      concept.description = this.expect(TokenType.STRING).value;
+    } else if (this.match(TokenType.ATTRIBUTES)) {
+      this.expect(TokenType.ASSIGN);
+      [concept.attributes, concept.excludedAttributes] = this.parseTraitArray(() => this.expect(TokenType.STRING).value);
+    } else if (this.match(TokenType.ESSENTIALS)) {
+      this.expect(TokenType.ASSIGN);
+      [concept.essentials, concept.excludedEssentials] = this.parseTraitArray(() => this.advance().value);
+    }
   }
 
   private parseEntityDeclaration(): AST.EntityDeclaration {
@@ -128,39 +224,32 @@ export class Parser {
     this.expect(TokenType.COLON);
     const conceptType = this.expect(TokenType.IDENTIFIER).value;
 
-    let description: string | null = null;
-    const properties = new Map<string, string>();
+    const entity: AST.EntityDeclaration = { type: 'EntityDeclaration', name, conceptType, description: null, properties: new Map() };
 
     // Support comma-separated properties: entity NAME: CONCEPT, prop = "value", ...
-    if (this.match(TokenType.COMMA)) {
-      // Parse first property
-      if (this.match(TokenType.DESCRIPTION)) {
-        this.expect(TokenType.ASSIGN);
-        description = this.expect(TokenType.STRING).value;
-      } else if (this.check(TokenType.IDENTIFIER)) {
-        const propName = this.advance().value;
-        this.expect(TokenType.ASSIGN);
-        const propValue = this.expect(TokenType.STRING).value;
-        properties.set(propName, propValue);
-      }
-
-      // Parse remaining properties
-      while (this.match(TokenType.COMMA)) {
-        if (this.match(TokenType.DESCRIPTION)) {
-          this.expect(TokenType.ASSIGN);
-          description = this.expect(TokenType.STRING).value;
-        } else if (this.check(TokenType.IDENTIFIER)) {
-          const propName = this.advance().value;
-          this.expect(TokenType.ASSIGN);
-          const propValue = this.expect(TokenType.STRING).value;
-          properties.set(propName, propValue);
-        }
-      }
+    while (this.match(TokenType.COMMA)) {
+      this.parseEntityProperty(entity);
     }
 
     this.match(TokenType.DOT);
 
-    return { type: 'EntityDeclaration', name, conceptType, description, properties };
+    return entity;
+  }
+
+  // `description = "..."` or any other name, keywords included, with a string value
+  private parseEntityProperty(entity: AST.EntityDeclaration): void {
+    const nameToken = this.peek();
+    if (nameToken.type !== TokenType.IDENTIFIER && !KEYWORD_TOKENS.has(nameToken.type)) {
+      throw new FriscoSyntaxError(`Expected a property name but got ${nameToken.type}`, this.tokenSpan(nameToken));
+    }
+    this.advance();
+    this.expect(TokenType.ASSIGN);
+    const value = this.expect(TokenType.STRING).value;
+    if (nameToken.type === TokenType.DESCRIPTION) {
+      entity.description = value;
+    } else {
+      entity.properties.set(nameToken.value, value);
+    }
   }
 
   private parseRuleOrAssignment(): AST.RuleDeclaration | AST.Assignment {
@@ -181,6 +270,7 @@ export class Parser {
   }
 
   private parsePredicateHead(): AST.PredicateHead {
+    const start = this.peek();
     const name = this.expect(TokenType.IDENTIFIER).value;
     const parameters: AST.Term[] = [];
     if (this.match(TokenType.LPAREN)) {
@@ -192,7 +282,7 @@ export class Parser {
       }
       this.expect(TokenType.RPAREN);
     }
-    return { name, parameters };
+    return this.located(start, { name, parameters });
   }
 
   private parseQuery(): AST.Query {
@@ -202,11 +292,19 @@ export class Parser {
     return { type: 'Query', body };
   }
 
+  private parseDirective(): AST.Directive {
+    this.expect(TokenType.IMPLIES);
+    const body = this.parseGoalBody();
+    this.expect(TokenType.DOT);
+    return { type: 'Directive', body };
+  }
+
   private parseGoalBody(): AST.Condition[] {
     return this.parseDisjunction();
   }
 
   private parseDisjunction(): AST.Condition[] {
+    const start = this.peek();
     let branches: AST.Condition[][] = [this.parseIfThenElse()];
     while (this.match(TokenType.SEMICOLON)) {
       branches.push(this.parseIfThenElse());
@@ -214,12 +312,13 @@ export class Parser {
     if (branches.length === 1) return branches[0];
     let acc: AST.Condition[] = branches[0];
     for (let i = 1; i < branches.length; i++) {
-      acc = [{ type: 'Disjunction', left: acc, right: branches[i] } as AST.Condition];
+      acc = [this.located(start, { type: 'Disjunction', left: acc, right: branches[i] } as AST.Condition)];
     }
     return acc;
   }
 
   private parseIfThenElse(): AST.Condition[] {
+    const start = this.peek();
     const condSeq = this.parseConjunction();
     if (this.match(TokenType.IF_THEN)) {
       const thenSeq = this.parseConjunction();
@@ -227,7 +326,7 @@ export class Parser {
       if (this.match(TokenType.SEMICOLON)) {
         elseSeq = this.parseConjunction();
       }
-      return [{ type: 'IfThenElse', condition: condSeq, thenBranch: thenSeq, elseBranch: elseSeq } as AST.Condition];
+      return [this.located(start, { type: 'IfThenElse', condition: condSeq, thenBranch: thenSeq, elseBranch: elseSeq } as AST.Condition)];
     }
     return condSeq;
   }
@@ -242,6 +341,11 @@ export class Parser {
   }
 
   private parseAtomicCondition(): AST.Condition {
+    const start = this.peek();
+    return this.located(start, this.parseConditionNode());
+  }
+
+  private parseConditionNode(): AST.Condition {
     if (this.match(TokenType.CUT)) return { type: 'Cut' };
 
     if (this.match(TokenType.NEGATION)) {
@@ -249,7 +353,7 @@ export class Parser {
       return { type: 'Negation', goals: [goals] };
     }
 
-    if (this.check(TokenType.IDENTIFIER) && this.peek(1).type === TokenType.LPAREN) {
+    if ((this.check(TokenType.IDENTIFIER) && this.peek(1).type === TokenType.LPAREN) || this.isKeywordFunctor()) {
       return this.parsePredicateCall();
     }
 
@@ -257,9 +361,35 @@ export class Parser {
 
     if (this.match(TokenType.SEMANTIC_MATCH)) {
       const right = this.parseTerm();
+      if (this.match(TokenType.AT)) {
+        return { type: 'SemanticMatch', left: leftTerm, right, threshold: this.parseTerm() };
+      }
       return { type: 'SemanticMatch', left: leftTerm, right };
     }
 
+    if (this.match(TokenType.IS)) {
+      const right = this.parseTerm();
+      return { type: 'PredicateCall', name: 'is', arguments: [leftTerm, right] };
+    }
+
+    const comparisonToken = this.match(
+      TokenType.LESS,
+      TokenType.GREATER,
+      TokenType.LESS_EQUAL,
+      TokenType.GREATER_EQUAL,
+      TokenType.ARITH_EQUAL,
+      TokenType.ARITH_NOT_EQUAL
+    );
+    if (comparisonToken) {
+      const right = this.parseTerm();
+      return {
+        type: 'Comparison',
+        operator: comparisonToken.value as AST.ComparisonCondition['operator'],
+        left: leftTerm,
+        right,
+      };
+    }
+
     const equalityToken = this.match(TokenType.EQUAL_EQUAL) || this.match(TokenType.ASSIGN);
     if (equalityToken) {
       const right = this.parseTerm();
@@ -275,11 +405,16 @@ export class Parser {
       return { type: 'PredicateCall', name: leftTerm.functor, arguments: leftTerm.args };
     }
 
-    throw new Error(`Unexpected condition at line ${this.peek().line}, column ${this.peek().column}: unexpected token ${this.peek().type} '${this.peek().value}'`);
+    // A bare lowercase name on its own is a call to a zero-arity predicate
+    if (leftTerm.type === 'Variable' && !leftTerm.anonymous) {
+      return { type: 'PredicateCall', name: leftTerm.name, arguments: [] };
+    }
+
+    throw new FriscoSyntaxError(`Unexpected condition: unexpected token ${this.peek().type} '${this.peek().value}'`, this.tokenSpan(this.peek()));
   }
 
   private parsePredicateCall(): AST.PredicateCall {
-    const name = this.expect(TokenType.IDENTIFIER).value;
+    const name = this.isKeywordFunctor() ? this.advance().value : this.expect(TokenType.IDENTIFIER).value;
     this.expect(TokenType.LPAREN);
     const args: AST.Term[] = [];
     if (!this.check(TokenType.RPAREN)) {
@@ -293,10 +428,78 @@ export class Parser {
   }
 
   private parseExpression(): AST.Term {
+    const start = this.peek();
+    let left = this.parseMultiplicative();
+    let op: Token | null;
+    while ((op = this.match(TokenType.PLUS, TokenType.MINUS))) {
+      const right = this.parseMultiplicative();
+      left = this.located(start, { type: 'CompoundTerm', functor: op.value, args: [left, right] });
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): AST.Term {
+    const start = this.peek();
+    let left = this.parseUnary();
+    let op: Token | null;
+    while ((op = this.match(TokenType.STAR, TokenType.SLASH, TokenType.INT_DIVIDE, TokenType.MOD))) {
+      const right = this.parseUnary();
+      left = this.located(start, { type: 'CompoundTerm', functor: op.value, args: [left, right] });
+    }
+    return left;
+  }
+
+  private parseUnary(): AST.Term {
+    const start = this.peek();
+    if (this.match(TokenType.MINUS)) {
+      if (this.check(TokenType.NUMBER)) {
+        return this.located(start, { type: 'NumberLiteral', value: -Number(this.advance().value) });
+      }
+      return this.located(start, { type: 'CompoundTerm', functor: '-', args: [this.parseUnary()] });
+    }
     return this.parsePrimary();
   }
 
+  private isPropertyKeyword(): boolean {
+    return this.check(TokenType.DESCRIPTION) || this.check(TokenType.ATTRIBUTES) || this.check(TokenType.ESSENTIALS);
+  }
+
+  // Keywords double as functors when a parenthesis follows: description("...")
+  // in property lists, concept(c) and entity(e, c) goals
+  private isKeywordFunctor(): boolean {
+    return (
+      (this.isPropertyKeyword() || this.check(TokenType.CONCEPT) || this.check(TokenType.ENTITY)) &&
+      this.peek(1).type === TokenType.LPAREN
+    );
+  }
+
+  // A dot directly between two words (no whitespace) is field access; otherwise it ends the statement
+  private isFieldAccessDot(nameToken: Token): boolean {
+    const dot = this.peek();
+    const field = this.peek(1);
+    return (
+      dot.type === TokenType.DOT &&
+      dot.line === nameToken.line &&
+      dot.column === nameToken.column + nameToken.value.length &&
+      field.line === dot.line &&
+      field.column === dot.column + 1 &&
+      field.type !== TokenType.STRING &&
+      /^[a-zA-Z_]/.test(field.value)
+    );
+  }
+
   private parsePrimary(): AST.Term {
+    const start = this.peek();
+    const term = this.parsePrimaryNode();
+    // A parenthesized expression keeps the span of its contents
+    return term.span ? term : this.located(start, term);
+  }
+
+  private parsePrimaryNode(): AST.Term {
+    if (this.check(TokenType.NUMBER)) {
+      return { type: 'NumberLiteral', value: Number(this.advance().value) };
+    }
+
     if (this.check(TokenType.STRING)) {
       const value = this.advance().value;
       return { type: 'StringLiteral', value };
@@ -306,8 +509,9 @@ export class Parser {
       return this.parseList();
     }
 
-    if (this.check(TokenType.IDENTIFIER)) {
-      const name = this.advance().value;
+    if (this.check(TokenType.IDENTIFIER) || this.isKeywordFunctor()) {
+      const nameToken = this.advance();
+      const name = nameToken.value;
       if (this.check(TokenType.LPAREN)) {
         this.advance();
         const args: AST.Term[] = [];
@@ -320,18 +524,21 @@ export class Parser {
         this.expect(TokenType.RPAREN);
         return { type: 'CompoundTerm', functor: name, args };
       }
-      if (this.check(TokenType.DOT)) {
-        this.advance();
-        const field = this.advance().value;
-        return { type: 'FieldAccess', object: name, field };
-      }
-      if (name === '_') {
-        return { type: 'Variable', name, anonymous: true };
+      const term: AST.Atom | AST.Variable = name === '_'
+        ? { type: 'Variable', name, anonymous: true }
+        : /^[a-z]/.test(name) ? { type: 'Variable', name } : { type: 'Atom', value: name };
+      if (!this.isFieldAccessDot(nameToken)) {
+        return term;
       }
-      if (/^[a-z]/.test(name)) {
-        return { type: 'Variable', name };
+      // object.field, chained as far as the dots go
+      let access: AST.Atom | AST.Variable | AST.FieldAccess = this.located(nameToken, term);
+      let last = nameToken;
+      while (this.isFieldAccessDot(last)) {
+        this.advance();
+        last = this.advance();
+        access = this.located(nameToken, { type: 'FieldAccess', object: access, field: last.value });
       }
-      return { type: 'Atom', value: name };
+      return access;
     }
 
     if (this.check(TokenType.LPAREN)) {
@@ -341,7 +548,7 @@ export class Parser {
       return expr;
     }
 
-    throw new Error(`Unexpected token ${this.peek().type} at line ${this.peek().line}, column ${this.peek().column}`);
+    throw new FriscoSyntaxError(`Unexpected token ${this.peek().type}`, this.tokenSpan(this.peek()));
   }
 
   private parseTerm(): AST.Term {
@@ -372,35 +579,31 @@ export class Parser {
     this.expect(TokenType.ASSIGN);
     const valueToken = this.advance();
     const value = valueToken.value;
+    this.match(TokenType.DOT);
     return { type: 'Assignment', variable, value };
   }
 
-  private parseStringArray(): string[] {
+  // A list of attributes or essentials; entries written -"entry" are
+  // exclusions of inherited entries. Returns [entries, exclusions].
+  private parseTraitArray(parseItem: () => string): [string[], string[]] {
     this.expect(TokenType.LBRACKET);
     const items: string[] = [];
-    if (!this.check(TokenType.RBRACKET)) {
-      items.push(this.expect(TokenType.STRING).value);
-      while (this.match(TokenType.COMMA)) {
-        if (this.check(TokenType.RBRACKET)) break;
-        items.push(this.expect(TokenType.STRING).value);
+    const excluded: string[] = [];
+    const parseEntry = () => {
+      if (this.match(TokenType.MINUS)) {
+        excluded.push(parseItem());
+      } else {
+        items.push(parseItem());
       }
-    }
-    this.expect(TokenType.RBRACKET);
-    return items;
-  }
-
-  private parseIdentifierOrStringArray(): string[] {
-    this.expect(TokenType.LBRACKET);
-    const items: string[] = [];
+    };
     if (!this.check(TokenType.RBRACKET)) {
-      const first = this.advance();
-      items.push(first.value);
+      parseEntry();
       while (this.match(TokenType.COMMA)) {
         if (this.check(TokenType.RBRACKET)) break;
-        items.push(this.advance().value);
+        parseEntry();
       }
     }
     this.expect(TokenType.RBRACKET);
-    return items;
+    return [items, excluded];
   }
 }
@@ -0,0 +1,60 @@
+// Derivation trees recorded while explaining a query: which clauses, builtins
+// and semantic judgments each solution rests on
+
+import * as AST from './ast.js';
+import { JudgeOperation } from './judge-backend.js';
+
+// One answer from the judge, as reported by the SemanticMatcher
+export type Judgment = {
+  operation: JudgeOperation;
+  args: string[];
+  result: number | boolean | string;
+  // The judge failed and, by the failure policy, the answer counts as unknown
+  unknown?: boolean;
+};
+
+export type ProofNode =
+  | { kind: 'rule'; goal: AST.Condition; clause: AST.RuleDeclaration; children: ProofNode[] }
+  | { kind: 'builtin'; goal: AST.Condition; judgments: Judgment[] }
+  | { kind: 'semantic'; goal: AST.Condition; threshold: number; judgments: Judgment[] }
+  | { kind: 'unification' | 'comparison' | 'negation'; goal: AST.Condition };
+
+// Render a proof as an indented tree. `renderGoal` shows a goal with the
+// solution's bindings applied; `renderClause` shows the rule a node used (facts
+// are just marked as such).
+export function formatProof(
+  nodes: ProofNode[],
+  renderGoal: (goal: AST.Condition) => string,
+  renderClause: (clause: AST.RuleDeclaration) => string,
+  depth = 0
+): string[] {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  for (const node of nodes) {
+    const goal = renderGoal(node.goal);
+    switch (node.kind) {
+      case 'rule':
+        lines.push(`${indent}${goal}  <- ${node.clause.body.length === 0 ? 'fact' : renderClause(node.clause)}`);
+        lines.push(...formatProof(node.children, renderGoal, renderClause, depth + 1));
+        break;
+      case 'builtin':
+        lines.push(`${indent}${goal}  (builtin)`);
+        lines.push(...node.judgments.map((j) => `${indent}  ${formatJudgment(j)}`));
+        break;
+      case 'semantic':
+        lines.push(`${indent}${goal}  (threshold ${node.threshold})`);
+        lines.push(...node.judgments.map((j) => `${indent}  ${formatJudgment(j)}`));
+        break;
+      default:
+        lines.push(`${indent}${goal}  (${node.kind})`);
+    }
+  }
+  return lines;
+}
+
+export function formatJudgment(judgment: Judgment): string {
+  const args = judgment.args.map((arg) => JSON.stringify(arg)).join(', ');
+  const result = typeof judgment.result === 'number' ? judgment.result.toFixed(2) : JSON.stringify(judgment.result);
+  if (judgment.unknown) return `judge ${judgment.operation}(${args}) = unknown (the judge failed)`;
+  return `judge ${judgment.operation}(${args}) = ${result}`;
+}
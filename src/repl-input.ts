@@ -0,0 +1,28 @@
+// How a line typed at the REPL is read, shared by the terminal and web REPLs
+
+// :help, :kb and the like; a directive (:- goal.) is code
+export function isReplCommand(input: string): boolean {
+  const trimmed = input.trim();
+  return trimmed.startsWith(':') && !trimmed.startsWith(':-');
+}
+
+// The program a line of input stands for: a bare goal such as `man(x)` is a
+// query, and a query or directive may leave out its final period
+export function replSource(input: string): string {
+  let code = input.trim();
+  if (
+    !code.startsWith('?') &&
+    !code.startsWith('concept ') &&
+    !code.startsWith('Concept ') &&
+    !code.startsWith('entity ') &&
+    !code.startsWith('Entity ') &&
+    !code.includes(':-') &&
+    !code.includes(' = ')
+  ) {
+    code = '? ' + code;
+  }
+  if ((code.startsWith('?') || code.startsWith(':-')) && !code.endsWith('.')) {
+    code = code + '.';
+  }
+  return code;
+}
@@ -1,20 +1,38 @@
 // Frisco REPL (Read-Eval-Print Loop)
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { render, Box, Text, useInput } from 'ink';
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Lexer } from './lexer.js';
-import { Parser } from './parser.js';
-import { Executor } from './executor.js';
+import { Parser, parseSource } from './parser.js';
+import { Executor, InputHandler } from './executor.js';
 import { Serializer } from './serializer.js';
+import { parsePredicateIndicator } from './knowledge-base.js';
+import { formatDiagnostic } from './errors.js';
 import { SyntaxHighlighter } from './syntax-highlighter.js';
 import { ReplInput } from './MultilineTextInput.js';
+import { JudgeBackend } from './judge-backend.js';
+import { TraceAction, formatTraceEvent } from './tracer.js';
+import { nodeFileSystem } from './node-host.js';
+import { TNorm, TNORMS } from './fuzzy.js';
+import { DEFAULT_THRESHOLD, FriscoConfig, configureExecutor } from './config.js';
+import { isReplCommand, replSource } from './repl-input.js';
+
+// Keys accepted at a trace port
+const TRACE_KEYS: Record<string, TraceAction> = { c: 'creep', s: 'skip', l: 'leap', a: 'abort' };
+
+// Builds the judge once the REPL can ask the user questions (the human judge
+// asks at the input> prompt)
+export type JudgeFactory = (input: InputHandler) => JudgeBackend;
+
+interface ReplProps {
+  judge?: JudgeFactory;
+  config?: FriscoConfig;
+}
 
-interface ReplProps {}
-
-const Repl: React.FC<ReplProps> = () => {
+const Repl: React.FC<ReplProps> = ({ judge, config }) => {
   const [history, setHistory] = useState<string[]>([]);
   const [input, setInput] = useState('');
   const [shouldExit, setShouldExit] = useState(false);
@@ -30,15 +48,25 @@ const Repl: React.FC<ReplProps> = () => {
   const [filePromptMode, setFilePromptMode] = useState<'save' | 'load' | null>(null);
   const [filePromptResolver, setFilePromptResolver] = useState<((value: string) => void) | null>(null);
 
-  // Create executor with output and input handlers
-  const [executor] = useState(() => new Executor(
-    0.7,
-    // Output handler
-    (msg: string) => {
-      setHistory(prev => [...prev, msg]);
-    },
-    // Input handler
-    async (prompt?: string): Promise<string> => {
+  // Tracer stepping state: set while a trace port waits for a key
+  const [traceResolver, setTraceResolver] = useState<((action: TraceAction) => void) | null>(null);
+
+  // Cancels the running query (Esc)
+  const running = useRef<AbortController | null>(null);
+
+  // Run a query, explanation or load that Esc can cancel
+  const cancellable = async (run: (signal: AbortSignal) => Promise<void>): Promise<void> => {
+    running.current = new AbortController();
+    try {
+      await run(running.current.signal);
+    } finally {
+      running.current = null;
+    }
+  };
+
+  // Create executor with output, input and trace handlers
+  const [executor] = useState(() => {
+    const readInput = async (prompt?: string): Promise<string> => {
       if (prompt) {
         setHistory(prev => [...prev, prompt]);
       }
@@ -46,8 +74,26 @@ const Repl: React.FC<ReplProps> = () => {
         setInputResolver(() => resolve);
         setWaitingForInput(true);
       });
-    }
-  ));
+    };
+    const created = new Executor(
+      config?.threshold ?? DEFAULT_THRESHOLD,
+      // Output handler
+      (msg: string) => {
+        setHistory(prev => [...prev, msg]);
+      },
+      readInput,
+      judge?.(readInput),
+      nodeFileSystem
+    );
+    if (config) configureExecutor(created, config);
+    created.getTracer().setHandler(async (event) => {
+      setHistory(prev => [...prev, formatTraceEvent(event)]);
+      return new Promise<TraceAction>((resolve) => {
+        setTraceResolver(() => resolve);
+      });
+    });
+    return created;
+  });
 
   // Initialize semantic matcher on startup
   useEffect(() => {
@@ -76,6 +122,20 @@ const Repl: React.FC<ReplProps> = () => {
   // Handle Up/Down for command history navigation
   // Use Ctrl+Up/Down when in multiline mode, regular Up/Down for single line
   useInput((inputChar, key) => {
+    if (key.escape && running.current) {
+      running.current.abort();
+      return;
+    }
+
+    if (traceResolver) {
+      const action = key.return ? 'creep' : TRACE_KEYS[inputChar.toLowerCase()];
+      if (action) {
+        setTraceResolver(null);
+        traceResolver(action);
+      }
+      return;
+    }
+
     if (waitingForInput || filePromptMode) {
       return; // Don't handle keys during input prompts
     }
@@ -139,7 +199,7 @@ const Repl: React.FC<ReplProps> = () => {
     setHistory(prev => [...prev, `frisco> ${value}`]);
 
     // Handle REPL commands
-    if (trimmed.startsWith(':')) {
+    if (isReplCommand(trimmed)) {
       handleCommand(trimmed);
       return;
     }
@@ -149,41 +209,24 @@ const Repl: React.FC<ReplProps> = () => {
       // Use setImmediate to ensure state updates happen first
       setImmediate(async () => {
         try {
-          let code = trimmed;
-
-          // Auto-add query syntax for simple predicates (but not assignments)
-          if (!code.startsWith('?') &&
-              !code.startsWith('concept ') &&
-              !code.startsWith('Concept ') &&
-              !code.startsWith('entity ') &&
-              !code.startsWith('Entity ') &&
-              !code.includes(':-') &&
-              !code.includes(' = ')) {
-            code = '? ' + code;
-          }
-
-          // Queries still need the period at the end
-          if (code.startsWith('?') && !code.endsWith('.')) {
-            code = code + '.';
-          }
-
           // Lex, parse, and execute
-          const lexer = new Lexer(code);
-          const tokens = lexer.tokenize();
-          const parser = new Parser(tokens);
-          const ast = parser.parse();
+          const { program: ast, errors } = parseSource(replSource(trimmed));
+          if (errors.length > 0) {
+            setHistory(prev => [...prev, ...errors.map(error => chalk.red(formatDiagnostic(error)))]);
+            return;
+          }
 
-          await executor.execute(ast);
+          await cancellable(signal => executor.consult(ast, {}, signal));
         } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          setHistory(prev => [...prev, chalk.red(`Error: ${message}`)]);
+          setHistory(prev => [...prev, chalk.red(formatDiagnostic(error))]);
         }
       });
     }
   };
 
   const handleCommand = (cmd: string) => {
-    const command = cmd.slice(1).toLowerCase();
+    const [name, ...args] = cmd.slice(1).split(/\s+/);
+    const command = name.toLowerCase();
 
     switch (command) {
       case 'help':
@@ -195,6 +238,14 @@ const Repl: React.FC<ReplProps> = () => {
           '  :kb         - Display the current knowledge base',
           '  :kb_save    - Save knowledge base to a .frisco file',
           '  :kb_load    - Load knowledge base from a .frisco file',
+          '                (predicates defined in the file replace existing ones)',
+          '  :abolish p  - Remove all clauses of predicate p (or p/arity)',
+          '  :explain q  - Run query q and show the derivation of each answer',
+          '  :trace      - Toggle the step tracer',
+          '  :fuzzy t    - Evaluate with t-norm t (min, product, lukasiewicz) or off',
+          '  :spy p      - Start tracing whenever predicate p (or p/arity) is called',
+          '  :nospy p    - Remove a spy point',
+          '  :reset      - Empty the knowledge base and variable bindings',
           '  :clear      - Clear the screen',
           '  :quit       - Exit the REPL',
           '',
@@ -208,6 +259,13 @@ const Repl: React.FC<ReplProps> = () => {
           '                  Auto-submits if line ends with "." or starts with ":"',
           '  Shift+Enter   - Force newline (if modifier keys work in your terminal)',
           '  Ctrl+A/E      - Jump to start/end of current line',
+          '  Esc           - Cancel the running query and its judge requests',
+          '',
+          chalk.bold('Tracing:'),
+          '  c / Enter     - Creep: stop at the next port',
+          '  s             - Skip: run the current goal without showing its subgoals',
+          '  l             - Leap: run on until a spy point',
+          '  a             - Abort the query',
           '',
           chalk.bold('Frisco Language:'),
           '  concept <Name>                         - Define a concept',
@@ -217,12 +275,15 @@ const Repl: React.FC<ReplProps> = () => {
           '  ? <predicate>                          - Query/execute',
           '',
           chalk.yellow('Note: ? prefix is auto-added for queries'),
+          chalk.yellow('      Declarations add to the knowledge base built so far'),
           chalk.yellow('      Periods are optional everywhere!'),
           '',
           chalk.bold('Built-in Predicates:'),
           '  println(X)    - Print X with newline',
           '  print(X)      - Print X without newline',
           '  readln(X)     - Read input and bind to variable X',
+          '  explain(G)    - Solve G and print how each answer was derived',
+          '  trace/notrace - Switch the step tracer on or off',
           '',
         ]);
         break;
@@ -232,7 +293,8 @@ const Repl: React.FC<ReplProps> = () => {
         const serialized = Serializer.serializeProgram(
           kb.concepts,
           kb.entities,
-          kb.rules
+          kb.rules,
+          executor.getGlobalBindings()
         );
         const highlighted = SyntaxHighlighter.highlight(serialized);
         setHistory(prev => [...prev, '', highlighted, '']);
@@ -242,6 +304,90 @@ const Repl: React.FC<ReplProps> = () => {
         setHistory([]);
         break;
 
+      case 'reset':
+        executor.reset();
+        setHistory(prev => [...prev, chalk.green('Knowledge base cleared')]);
+        break;
+
+      case 'abolish': {
+        const indicator = args.length > 0 ? parsePredicateIndicator(args[0]) : null;
+        if (!indicator) {
+          setHistory(prev => [...prev, chalk.red('Usage: :abolish name or :abolish name/arity')]);
+          break;
+        }
+        const removed = executor.abolish(indicator.name, indicator.arity);
+        setHistory(prev => [...prev, chalk.green(`Removed ${removed} clause${removed === 1 ? '' : 's'} of ${args[0]}`)]);
+        break;
+      }
+
+      case 'explain': {
+        const goal = cmd.slice(1 + name.length).trim().replace(/^\?\s*/, '').replace(/\.$/, '');
+        if (!goal) {
+          setHistory(prev => [...prev, chalk.red('Usage: :explain goal')]);
+          break;
+        }
+        setImmediate(async () => {
+          try {
+            const code = `? ${goal}.`;
+            const ast = new Parser(new Lexer(code).tokenize(), { text: code }).parse();
+            await cancellable(async signal => {
+              for (const statement of ast.statements) {
+                if (statement.type === 'Query') {
+                  await executor.explainQuery(statement, signal);
+                }
+              }
+            });
+          } catch (error) {
+            setHistory(prev => [...prev, chalk.red(formatDiagnostic(error))]);
+          }
+        });
+        break;
+      }
+
+      case 'trace': {
+        const tracer = executor.getTracer();
+        if (tracer.isTracing()) {
+          tracer.notrace();
+        } else {
+          tracer.trace();
+        }
+        setHistory(prev => [...prev, chalk.green(`Tracing ${tracer.isTracing() ? 'on' : 'off'}`)]);
+        break;
+      }
+
+      case 'fuzzy': {
+        const tnorm = args[0]?.toLowerCase();
+        if (tnorm === 'off') {
+          executor.setFuzzyLogic(null);
+        } else if (TNORMS.includes(tnorm as TNorm)) {
+          executor.setFuzzyLogic(tnorm as TNorm);
+        } else {
+          setHistory(prev => [...prev, chalk.red(`Usage: :fuzzy ${TNORMS.join(' | ')} | off`)]);
+          break;
+        }
+        const current = executor.getFuzzyLogic();
+        setHistory(prev => [...prev, chalk.green(current ? `Fuzzy evaluation with the ${current} t-norm` : 'Fuzzy evaluation off')]);
+        break;
+      }
+
+      case 'spy':
+      case 'nospy': {
+        const indicator = args.length > 0 ? parsePredicateIndicator(args[0]) : null;
+        if (!indicator) {
+          setHistory(prev => [...prev, chalk.red(`Usage: :${command} name or :${command} name/arity`)]);
+          break;
+        }
+        const tracer = executor.getTracer();
+        if (command === 'spy') {
+          tracer.spy(indicator.name, indicator.arity);
+          setHistory(prev => [...prev, chalk.green(`Spy point on ${args[0]}`)]);
+        } else {
+          const removed = tracer.nospy(indicator.name, indicator.arity);
+          setHistory(prev => [...prev, removed ? chalk.green(`Spy point on ${args[0]} removed`) : chalk.yellow(`No spy point on ${args[0]}`)]);
+        }
+        break;
+      }
+
       case 'quit':
       case 'exit':
         setHistory(prev => [...prev, chalk.green('Goodbye!')]);
@@ -265,7 +411,8 @@ const Repl: React.FC<ReplProps> = () => {
             const serialized = Serializer.serializeProgram(
               kb.concepts,
               kb.entities,
-              kb.rules
+              kb.rules,
+              executor.getGlobalBindings()
             );
 
             fs.writeFileSync(filepath, serialized, 'utf-8');
@@ -291,16 +438,16 @@ const Repl: React.FC<ReplProps> = () => {
             filepath = path.resolve(filepath);
 
             const source = fs.readFileSync(filepath, 'utf-8');
-            const lexer = new Lexer(source);
-            const tokens = lexer.tokenize();
-            const parser = new Parser(tokens);
-            const ast = parser.parse();
+            const { program: ast, errors } = parseSource(source, filepath);
+            if (errors.length > 0) {
+              setHistory(prev => [...prev, chalk.red(`Error loading ${filename}`), ...errors.map(error => chalk.red(formatDiagnostic(error)))]);
+              return;
+            }
 
-            await executor.execute(ast);
+            await cancellable(signal => executor.consult(ast, { redefine: true }, signal));
             setHistory(prev => [...prev, chalk.green(`Knowledge base loaded from ${filepath}`)]);
           } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            setHistory(prev => [...prev, chalk.red(`Error loading: ${message}`)]);
+            setHistory(prev => [...prev, chalk.red(`Error loading ${filename}`), chalk.red(formatDiagnostic(error))]);
           }
         });
         break;
@@ -326,7 +473,11 @@ const Repl: React.FC<ReplProps> = () => {
         <Text key={i}>{line}</Text>
       ))}
 
-      {!shouldExit && (() => {
+      {!shouldExit && traceResolver && (
+        <Text color="magenta">creep (c/Enter), skip (s), leap (l), abort (a)</Text>
+      )}
+
+      {!shouldExit && !traceResolver && (() => {
         const promptText = filePromptMode ? "file> " : waitingForInput ? "input> " : "frisco> ";
         return (
           <Box flexDirection="row">
@@ -346,6 +497,6 @@ const Repl: React.FC<ReplProps> = () => {
   );
 };
 
-export function startRepl(): void {
-  render(<Repl />);
+export function startRepl(judge?: JudgeFactory, config?: FriscoConfig): void {
+  render(<Repl judge={judge} config={config} />);
 }
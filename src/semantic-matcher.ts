@@ -1,8 +1,13 @@
 // LLM-as-Judge Semantic Matcher
-// Implements epistemologically-grounded operations for concept formation
+// Implements epistemologically-grounded operations for concept formation.
+// The questions are answered by a pluggable JudgeBackend (see judge-backend.ts).
+
+import { JudgeBackend, JudgeFailurePolicy, JudgeOperation, DEFAULT_JUDGE_ENDPOINT, OpenAICompatibleBackend } from './judge-backend.js';
+import { Judgment } from './proof.js';
+import { FriscoJudgeError } from './errors.js';
 
 // System prompt for conceptual identity (=~= operator)
-const CONCEPTUAL_IDENTITY_PROMPT = `You are judging conceptual identity.
+export const CONCEPTUAL_IDENTITY_PROMPT = `You are judging conceptual identity.
 
 Given two descriptions, determine whether they refer to the same concept or entity.
 This is about linguistic co-reference: do these expressions pick out the same abstract concept or concrete referent?
@@ -17,7 +22,7 @@ Examples:
 Return a score from 0.0 to 1.0 indicating conceptual identity.`;
 
 // System prompt for has_attr (checking if concrete possesses characteristic)
-const HAS_ATTRIBUTE_PROMPT = `You are judging whether a concrete possesses a characteristic.
+export const HAS_ATTRIBUTE_PROMPT = `You are judging whether a concrete possesses a characteristic.
 
 Given a characteristic (an attribute type) and a concrete (an entity or thing), determine whether the concrete possesses this characteristic AT ALL, regardless of its specific measurement.
 
@@ -33,7 +38,7 @@ Examples:
 Return true if the concrete possesses this characteristic, false if it lacks it entirely.`;
 
 // System prompt for share_attr (checking if both concretes possess characteristic)
-const SHARE_ATTRIBUTE_PROMPT = `You are judging whether two concretes both possess a characteristic.
+export const SHARE_ATTRIBUTE_PROMPT = `You are judging whether two concretes both possess a characteristic.
 
 Given a characteristic and two concretes, determine whether BOTH possess this characteristic, regardless of their specific measurements.
 
@@ -48,7 +53,7 @@ Examples:
 Return true if BOTH possess the characteristic, false if either lacks it.`;
 
 // System prompt for differentia (what distinguishes one from another)
-const DIFFERENTIA_PROMPT = `You are identifying the differentia - what distinguishes one thing from another.
+export const DIFFERENTIA_PROMPT = `You are identifying the differentia - what distinguishes one thing from another.
 
 In Objectivist epistemology, a definition has the form "genus + differentia" - the category something belongs to, plus what distinguishes it from other members of that category.
 
@@ -62,7 +67,7 @@ Examples:
 Return the distinguishing characteristic as a concise phrase.`;
 
 // System prompt for similar_attr (gradient similarity - less epistemologically pure but still useful)
-const SIMILAR_ATTR_PROMPT = `You are measuring attribute similarity for concept formation.
+export const SIMILAR_ATTR_PROMPT = `You are measuring attribute similarity for concept formation.
 
 Given an axis (a measurable attribute) and two concretes, determine how similar they are along ONLY that axis, ignoring all other properties.
 
@@ -87,71 +92,70 @@ interface StringResponse {
   result: string;
 }
 
-export class SemanticMatcher {
-  private readonly threshold: number;
-  private readonly endpoint: string;
+type Answer<T> = { response: T | null; unknown: boolean };
 
-  constructor(threshold: number = 0.7, endpoint: string = 'http://localhost:9090') {
+export class SemanticMatcher {
+  private threshold: number;
+  private readonly backend: JudgeBackend;
+  // Told about every answer, e.g. to build proof trees
+  onJudgment: ((judgment: Judgment) => void) | null = null;
+  failurePolicy: JudgeFailurePolicy = 'error';
+
+  // A string backend is the endpoint of an OpenAI-compatible server
+  constructor(threshold: number = 0.7, backend: JudgeBackend | string = DEFAULT_JUDGE_ENDPOINT) {
     this.threshold = threshold;
-    this.endpoint = endpoint;
+    this.backend = typeof backend === 'string' ? new OpenAICompatibleBackend(backend) : backend;
   }
 
   async initialize(): Promise<void> {
     // No initialization needed for LLM-as-judge approach
   }
 
-  private async callLLM<T>(systemPrompt: string, userMessage: string, schema: object): Promise<T | null> {
+  // A judge failure the policy tolerates comes back as no response. Each
+  // operation takes the cancellation signal of the query that asks it.
+  private async ask<T>(
+    operation: JudgeOperation,
+    args: string[],
+    systemPrompt: string,
+    userMessage: string,
+    schema: object,
+    signal: AbortSignal | undefined
+  ): Promise<Answer<T>> {
     try {
-      const response = await fetch(`${this.endpoint}/v1/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage }
-          ],
-          response_format: {
-            type: 'json_schema',
-            json_schema: {
-              name: 'response',
-              strict: true,
-              schema
-            }
-          }
-        })
-      });
-
-      if (!response.ok) {
-        console.error(`LLM judge request failed: ${response.status} ${response.statusText}`);
-        return null;
-      }
+      const response = await this.backend.judge({ operation, args, systemPrompt, userMessage, schema, signal });
+      return { response: response as T | null, unknown: false };
+    } catch (error) {
+      if (!(error instanceof FriscoJudgeError) || this.failurePolicy === 'error') throw error;
+      return { response: null, unknown: this.failurePolicy === 'unknown' };
+    }
+  }
 
-      const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
-      const content = data.choices?.[0]?.message?.content;
+  private record<T extends Judgment['result']>(operation: JudgeOperation, args: string[], result: T, unknown: boolean): T {
+    this.onJudgment?.(unknown ? { operation, args, result, unknown } : { operation, args, result });
+    return result;
+  }
 
-      if (!content) {
-        console.error('No content in LLM response');
-        return null;
-      }
+  getBackend(): JudgeBackend {
+    return this.backend;
+  }
 
-      return JSON.parse(content) as T;
-    } catch (error) {
-      console.error('Error calling LLM judge:', error);
-      return null;
-    }
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  setThreshold(threshold: number): void {
+    this.threshold = threshold;
   }
 
   // =~= operator: conceptual identity (linguistic co-reference)
-  async match(left: string | string[], right: string): Promise<boolean> {
+  async match(left: string | string[], right: string, threshold: number = this.threshold, signal?: AbortSignal): Promise<boolean> {
     if (typeof left === 'string') {
-      const score = await this.getConceptualIdentity(left, right);
-      return score >= this.threshold;
+      const score = await this.getConceptualIdentity(left, right, signal);
+      return score >= threshold;
     } else {
       for (const item of left) {
-        const score = await this.getConceptualIdentity(item, right);
-        if (score >= this.threshold) {
+        const score = await this.getConceptualIdentity(item, right, signal);
+        if (score >= threshold) {
           return true;
         }
       }
@@ -159,7 +163,19 @@ export class SemanticMatcher {
     }
   }
 
-  async getConceptualIdentity(a: string, b: string): Promise<number> {
+  // similarity/3: conceptual identity score; for a list, the best score of any element
+  async getBestConceptualIdentity(left: string | string[], right: string, signal?: AbortSignal): Promise<number> {
+    if (typeof left === 'string') {
+      return this.getConceptualIdentity(left, right, signal);
+    }
+    let best = 0;
+    for (const item of left) {
+      best = Math.max(best, await this.getConceptualIdentity(item, right, signal));
+    }
+    return best;
+  }
+
+  async getConceptualIdentity(a: string, b: string, signal?: AbortSignal): Promise<number> {
     const userMessage = `Description 1: ${a}\nDescription 2: ${b}`;
     const schema = {
       type: 'object',
@@ -167,8 +183,8 @@ export class SemanticMatcher {
       required: ['similarity'],
       additionalProperties: false
     };
-    const result = await this.callLLM<SimilarityResponse>(CONCEPTUAL_IDENTITY_PROMPT, userMessage, schema);
-    return result ? Math.max(0, Math.min(1, result.similarity)) : 0;
+    const { response: result, unknown } = await this.ask<SimilarityResponse>('conceptual_identity', [a, b], CONCEPTUAL_IDENTITY_PROMPT, userMessage, schema, signal);
+    return this.record('conceptual_identity', [a, b], result ? Math.max(0, Math.min(1, result.similarity)) : 0, unknown);
   }
 
   // Alias for backwards compatibility
@@ -177,7 +193,7 @@ export class SemanticMatcher {
   }
 
   // has_attr/2: Does this concrete possess this characteristic?
-  async hasAttribute(characteristic: string, concrete: string): Promise<boolean> {
+  async hasAttribute(characteristic: string, concrete: string, signal?: AbortSignal): Promise<boolean> {
     const userMessage = `Characteristic: ${characteristic}\nConcrete: ${concrete}`;
     const schema = {
       type: 'object',
@@ -185,12 +201,12 @@ export class SemanticMatcher {
       required: ['result'],
       additionalProperties: false
     };
-    const result = await this.callLLM<BooleanResponse>(HAS_ATTRIBUTE_PROMPT, userMessage, schema);
-    return result?.result ?? false;
+    const { response: result, unknown } = await this.ask<BooleanResponse>('has_attr', [characteristic, concrete], HAS_ATTRIBUTE_PROMPT, userMessage, schema, signal);
+    return this.record('has_attr', [characteristic, concrete], result?.result ?? false, unknown);
   }
 
   // share_attr/3: Do both concretes possess this characteristic?
-  async shareAttribute(characteristic: string, a: string, b: string): Promise<boolean> {
+  async shareAttribute(characteristic: string, a: string, b: string, signal?: AbortSignal): Promise<boolean> {
     const userMessage = `Characteristic: ${characteristic}\nConcrete 1: ${a}\nConcrete 2: ${b}`;
     const schema = {
       type: 'object',
@@ -198,12 +214,12 @@ export class SemanticMatcher {
       required: ['result'],
       additionalProperties: false
     };
-    const result = await this.callLLM<BooleanResponse>(SHARE_ATTRIBUTE_PROMPT, userMessage, schema);
-    return result?.result ?? false;
+    const { response: result, unknown } = await this.ask<BooleanResponse>('share_attr', [characteristic, a, b], SHARE_ATTRIBUTE_PROMPT, userMessage, schema, signal);
+    return this.record('share_attr', [characteristic, a, b], result?.result ?? false, unknown);
   }
 
   // differentia/3: What distinguishes A from B?
-  async getDifferentia(a: string, b: string): Promise<string> {
+  async getDifferentia(a: string, b: string, signal?: AbortSignal): Promise<string> {
     const userMessage = `A (the thing to define): ${a}\nB (the genus/comparison class): ${b}`;
     const schema = {
       type: 'object',
@@ -211,12 +227,12 @@ export class SemanticMatcher {
       required: ['result'],
       additionalProperties: false
     };
-    const result = await this.callLLM<StringResponse>(DIFFERENTIA_PROMPT, userMessage, schema);
-    return result?.result ?? '';
+    const { response: result, unknown } = await this.ask<StringResponse>('differentia', [a, b], DIFFERENTIA_PROMPT, userMessage, schema, signal);
+    return this.record('differentia', [a, b], result?.result ?? '', unknown);
   }
 
   // similar_attr/3: Gradient similarity along an axis (less pure but still useful)
-  async getSimilarityAlongAxis(axis: string, a: string, b: string): Promise<number> {
+  async getSimilarityAlongAxis(axis: string, a: string, b: string, signal?: AbortSignal): Promise<number> {
     const userMessage = `Axis: ${axis}\nConcrete 1: ${a}\nConcrete 2: ${b}`;
     const schema = {
       type: 'object',
@@ -224,24 +240,24 @@ export class SemanticMatcher {
       required: ['similarity'],
       additionalProperties: false
     };
-    const result = await this.callLLM<SimilarityResponse>(SIMILAR_ATTR_PROMPT, userMessage, schema);
-    return result ? Math.max(0, Math.min(1, result.similarity)) : 0;
+    const { response: result, unknown } = await this.ask<SimilarityResponse>('similar_attr', [axis, a, b], SIMILAR_ATTR_PROMPT, userMessage, schema, signal);
+    return this.record('similar_attr', [axis, a, b], result ? Math.max(0, Math.min(1, result.similarity)) : 0, unknown);
   }
 
   // Backwards compatibility: matchWithThreshold uses similar_attr logic
-  async matchWithThreshold(left: string | string[], right: string, dim?: string): Promise<boolean> {
+  async matchWithThreshold(left: string | string[], right: string, dim?: string, signal?: AbortSignal): Promise<boolean> {
     const axis = dim || 'conceptual identity';
 
     if (typeof left === 'string') {
       const similarity = axis === 'conceptual identity'
-        ? await this.getConceptualIdentity(left, right)
-        : await this.getSimilarityAlongAxis(axis, left, right);
+        ? await this.getConceptualIdentity(left, right, signal)
+        : await this.getSimilarityAlongAxis(axis, left, right, signal);
       return similarity >= this.threshold;
     } else {
       for (const item of left) {
         const similarity = axis === 'conceptual identity'
-          ? await this.getConceptualIdentity(item, right)
-          : await this.getSimilarityAlongAxis(axis, item, right);
+          ? await this.getConceptualIdentity(item, right, signal)
+          : await this.getSimilarityAlongAxis(axis, item, right, signal);
         if (similarity >= this.threshold) {
           return true;
         }
@@ -0,0 +1,101 @@
+// Candidate shortlisting for semantic search: `x =~= "philosopher"` with x
+// unbound binds x to each entity or concept that matches. Asking the judge
+// about every object in a large knowledge base would cost one call each, so a
+// cheap index first picks the candidates closest to the query and only those
+// are judged.
+
+import type { EmbedFunction } from './embedding-backend.js';
+import { KnowledgeBase, fieldValue } from './knowledge-base.js';
+
+export type SearchCandidate = {
+  name: string;
+  // The text the query is compared with (a description, or another field)
+  text: string;
+};
+
+export interface SearchIndex {
+  // At most `limit` candidates, most promising first
+  shortlist(query: string, candidates: SearchCandidate[], limit: number): Promise<SearchCandidate[]>;
+}
+
+export type SearchIndexKind = 'lexical' | 'embedding';
+
+// How many candidates are judged per search unless configured otherwise
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+// The entities, then the concepts, a search for `x.field` can bind x to, with
+// the values compared with the query. With no field (`x =~= ...`) an object is
+// compared by its description, or its name when it has none.
+export function searchValues(kb: KnowledgeBase, field: string | null): Map<string, string | string[]> {
+  const values = new Map<string, string | string[]>();
+  for (const name of [...kb.entities.keys(), ...kb.concepts.keys()]) {
+    const value = field ? fieldValue(kb, name, field) : fieldValue(kb, name, 'description') ?? name;
+    if (value !== null && !values.has(name)) values.set(name, value);
+  }
+  return values;
+}
+
+// Ranks by shared words. Needs nothing installed, but cannot see synonyms: when
+// there are more candidates than the limit, one described only in other words
+// than the query can be left out.
+export class LexicalIndex implements SearchIndex {
+  async shortlist(query: string, candidates: SearchCandidate[], limit: number): Promise<SearchCandidate[]> {
+    if (candidates.length <= limit) return candidates;
+    const queryWords = words(query);
+    return rankBy(candidates, limit, (candidate) => {
+      const candidateWords = words(candidate.text);
+      const shared = [...queryWords].filter((word) => candidateWords.has(word)).length;
+      return shared === 0 ? 0 : shared / Math.sqrt(queryWords.size * candidateWords.size);
+    });
+  }
+}
+
+// Ranks by cosine similarity of sentence embeddings, e.g. those of a local
+// fastembed model (EmbeddingBackend.embed)
+export class EmbeddingIndex implements SearchIndex {
+  private readonly embed: EmbedFunction;
+
+  constructor(embed: EmbedFunction) {
+    this.embed = embed;
+  }
+
+  async shortlist(query: string, candidates: SearchCandidate[], limit: number): Promise<SearchCandidate[]> {
+    if (candidates.length <= limit) return candidates;
+    const [queryVector, ...vectors] = await this.embed([query, ...candidates.map((candidate) => candidate.text)]);
+    const scores = new Map(candidates.map((candidate, i) => [candidate, cosine(queryVector, vectors[i])]));
+    return rankBy(candidates, limit, (candidate) => scores.get(candidate)!);
+  }
+}
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// The `limit` best candidates by score; ties keep their original order
+function rankBy(candidates: SearchCandidate[], limit: number, score: (candidate: SearchCandidate) => number): SearchCandidate[] {
+  return candidates
+    .map((candidate, index) => ({ candidate, index, score: score(candidate) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'in', 'on', 'to', 'for', 'from', 'with', 'who', 'that', 'is', 'by']);
+
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !STOP_WORDS.has(word))
+      .map((word) => (word.length > 3 ? word.replace(/(es|s)$/, '') : word))
+  );
+}
@@ -1,72 +1,133 @@
 import * as AST from './ast.js';
+import { isArithmeticOperator, formatArithmetic } from './arithmetic.js';
 
-export class Serializer {
-  static serializeConcept(concept: AST.ConceptDeclaration): string {
-    let output = `concept ${concept.name}`;
+// Frisco source for ASTs and knowledge bases. The output parses back to an
+// equivalent AST, so `:kb_save` followed by `:kb_load` restores what was saved.
 
-    if (concept.genus) {
-      output += `: ${concept.genus}`;
-    }
+// Words the lexer reads as keywords rather than identifiers
+const KEYWORDS = new Set(['concept', 'entity', 'description', 'attributes', 'essentials', 'not', 'is', 'mod']);
 
-    output += '\n';
+// A bound value: strings and atoms as strings, numbers as numbers, lists as
+// arrays and compound terms as { functor, args }. A part left unbound is null,
+// so the open list [1, 2 | t] is [1, 2, null].
+export type FriscoValue = string | number | null | FriscoValue[] | { functor: string; args: FriscoValue[] };
 
-    if (concept.description) {
-      output += `  description = "${concept.description}"\n`;
-    }
+export class Serializer {
+  static serialize(program: AST.Program): string {
+    return program.statements.map((statement) => this.serializeStatement(statement)).join('\n');
+  }
 
-    if (concept.attributes.length > 0) {
-      output += `  attributes = [\n`;
-      concept.attributes.forEach((attr, idx) => {
-        const isLast = idx === concept.attributes.length - 1;
-        output += `    "${attr}"${isLast ? '' : ','}\n`;
-      });
-      output += `  ]\n`;
+  static serializeStatement(statement: AST.Statement): string {
+    switch (statement.type) {
+      case 'ConceptDeclaration':
+        return this.serializeConcept(statement);
+      case 'EntityDeclaration':
+        return this.serializeEntity(statement);
+      case 'RuleDeclaration':
+        return this.serializeRule(statement);
+      case 'Query':
+        return `? ${this.goalsToSource(statement.body)}.`;
+      case 'Directive':
+        return `:- ${this.goalsToSource(statement.body)}.`;
+      case 'Assignment':
+        return `${statement.variable} = ${this.quote(statement.value)}.`;
     }
+  }
 
-    if (concept.essentials.length > 0) {
-      output += `  essentials = [\n`;
-      concept.essentials.forEach((ess, idx) => {
-        const isLast = idx === concept.essentials.length - 1;
-        output += `    ${ess}${isLast ? '' : ','}\n`;
-      });
-      output += `  ]\n`;
+  //   concept Penguin: Bird,
+  //     description = "flightless seabird",
+  //     attributes = ["swims", -"flies"].
+  static serializeConcept(concept: AST.ConceptDeclaration): string {
+    const properties = this.conceptProperties(concept).map(([name, value]) => `${name} = ${this.propertyValue(value)}`);
+    const header = `concept ${concept.name}`;
+    if (properties.length === 0) {
+      return concept.genus ? `${header}: ${concept.genus}.` : `${header}.`;
     }
+    return `${header}:${concept.genus ? ` ${concept.genus},` : ''}\n  ${properties.join(',\n  ')}.`;
+  }
 
-    return output;
+  // A concept's properties as source: a value, or the entries of a list
+  static conceptProperties(concept: AST.ConceptDeclaration): [string, string | string[]][] {
+    const properties: [string, string | string[]][] = [];
+    if (concept.description !== null) {
+      properties.push(['description', this.quote(concept.description)]);
+    }
+    const attributes = [
+      ...concept.attributes.map((attr) => this.quote(attr)),
+      ...concept.excludedAttributes.map((attr) => `-${this.quote(attr)}`),
+    ];
+    if (attributes.length > 0) {
+      properties.push(['attributes', attributes]);
+    }
+    const essentials = [
+      ...concept.essentials.map((ess) => this.essentialToSource(ess)),
+      ...concept.excludedEssentials.map((ess) => `-${this.essentialToSource(ess)}`),
+    ];
+    if (essentials.length > 0) {
+      properties.push(['essentials', essentials]);
+    }
+    return properties;
   }
 
+  //   entity SOCRATES: Man,
+  //     description = "philosopher",
+  //     teacher = "PROTAGORAS".
   static serializeEntity(entity: AST.EntityDeclaration): string {
-    let output = `entity ${entity.name}: ${entity.conceptType}\n`;
+    const properties = this.entityProperties(entity).map(([name, value]) => `${name} = ${value}`);
+    const header = `entity ${entity.name}: ${entity.conceptType}`;
+    return properties.length === 0 ? `${header}.` : `${header},\n  ${properties.join(',\n  ')}.`;
+  }
 
-    if (entity.description) {
-      output += `  description = "${entity.description}"\n`;
+  static entityProperties(entity: AST.EntityDeclaration): [string, string][] {
+    const properties: [string, string][] = [];
+    if (entity.description !== null) {
+      properties.push(['description', this.quote(entity.description)]);
     }
-
-    return output;
+    for (const [name, value] of entity.properties) {
+      properties.push([name, this.quote(value)]);
+    }
+    return properties;
   }
 
   static serializeRule(rule: AST.RuleDeclaration): string {
-    const head = `${rule.head.name}(${rule.head.parameters.map((p) => this.termToSource(p)).join(', ')})`;
-    const body = rule.body
-      .map((c) => this.conditionToSource(c))
-      .join(', ');
-    return `${head} :- ${body}.`;
+    if (rule.body.length === 0) return `${this.ruleHead(rule)}.`;
+    return `${this.ruleHead(rule)} :- ${this.goalsToSource(rule.body)}.`;
+  }
+
+  static ruleHead(rule: AST.RuleDeclaration): string {
+    // A fact needs parentheses even without arguments: `ready` alone is not a statement
+    return rule.head.parameters.length === 0 && rule.body.length > 0
+      ? rule.head.name
+      : `${rule.head.name}(${rule.head.parameters.map((p) => this.termToSource(p)).join(', ')})`;
+  }
+
+  static goalsToSource(goals: AST.Condition[]): string {
+    return goals.map((goal) => this.conditionToSource(goal)).join(', ');
   }
 
   static conditionToSource(cond: AST.Condition): string {
     switch (cond.type) {
       case 'PredicateCall':
+        if (cond.name === 'is' && cond.arguments.length === 2) {
+          return `${this.termToSource(cond.arguments[0])} is ${this.termToSource(cond.arguments[1])}`;
+        }
+        // Only a lowercase name on its own reads as a call; `Ready` would be an atom
+        if (cond.arguments.length === 0) return /^[a-z]/.test(cond.name) ? cond.name : `${cond.name}()`;
         return `${cond.name}(${cond.arguments.map((a) => this.termToSource(a)).join(', ')})`;
       case 'SemanticMatch':
-        return `${this.termToSource(cond.left)} =~= ${this.termToSource(cond.right)}`;
+        return `${this.termToSource(cond.left)} =~= ${this.termToSource(cond.right)}${cond.threshold ? ` @ ${this.termToSource(cond.threshold)}` : ''}`;
       case 'Equality':
+      case 'Comparison':
         return `${this.termToSource(cond.left)} ${cond.operator} ${this.termToSource(cond.right)}`;
-      case 'Negation':
-        return `not(${cond.goals.map((g) => this.conditionToSource(g)).join(', ')})`;
+      case 'Negation': {
+        // not(...) reads its argument as a term, which only a call can be
+        const goals = this.goalsToSource(cond.goals);
+        return cond.goals.length === 1 && cond.goals[0].type === 'PredicateCall' ? `not(${goals})` : `not ${goals}`;
+      }
       case 'Disjunction':
-        return `${cond.left.map((g) => this.conditionToSource(g)).join(', ')} ; ${cond.right.map((g) => this.conditionToSource(g)).join(', ')}`;
+        return `${this.goalsToSource(cond.left)} ; ${this.goalsToSource(cond.right)}`;
       case 'IfThenElse':
-        return `${cond.condition.map((g) => this.conditionToSource(g)).join(', ')} -> ${cond.thenBranch.map((g) => this.conditionToSource(g)).join(', ')}${cond.elseBranch.length ? ' ; ' + cond.elseBranch.map((g) => this.conditionToSource(g)).join(', ') : ''}`;
+        return `${this.goalsToSource(cond.condition)} -> ${this.goalsToSource(cond.thenBranch)}${cond.elseBranch.length ? ' ; ' + this.goalsToSource(cond.elseBranch) : ''}`;
       case 'Cut':
         return '!';
       default:
@@ -74,6 +135,29 @@ export class Serializer {
     }
   }
 
+  // A term as a plain value, e.g. for JSON
+  static termToValue(term: AST.Term): FriscoValue {
+    switch (term.type) {
+      case 'StringLiteral':
+      case 'Atom':
+        return term.value;
+      case 'NumberLiteral':
+        return term.value;
+      case 'List': {
+        const elements = term.elements.map((element) => this.termToValue(element));
+        if (!term.tail) return elements;
+        const tail = this.termToValue(term.tail);
+        return Array.isArray(tail) ? [...elements, ...tail] : [...elements, tail];
+      }
+      case 'CompoundTerm':
+        return { functor: term.functor, args: term.args.map((arg) => this.termToValue(arg)) };
+      case 'FieldAccess':
+        return this.termToSource(term);
+      case 'Variable':
+        return null;
+    }
+  }
+
   static termToSource(term: AST.Term): string {
     switch (term.type) {
       case 'Variable':
@@ -81,15 +165,18 @@ export class Serializer {
       case 'Atom':
         return term.value;
       case 'StringLiteral':
-        return `"${term.value}"`;
+        return this.quote(term.value);
+      case 'NumberLiteral':
+        return String(term.value);
       case 'FieldAccess':
-        return `${term.object}.${term.field}`;
+        return `${this.termToSource(term.object)}.${term.field}`;
       case 'List': {
         const elements = term.elements.map((e) => this.termToSource(e));
         const tail = term.tail ? `| ${this.termToSource(term.tail)}` : '';
         return `[${elements.join(', ')}${tail ? ' ' + tail : ''}]`;
       }
       case 'CompoundTerm':
+        if (isArithmeticOperator(term)) return formatArithmetic(term, (a) => this.termToSource(a));
         return `${term.functor}(${term.args.map((a) => this.termToSource(a)).join(', ')})`;
     }
   }
@@ -97,11 +184,22 @@ export class Serializer {
   static serializeProgram(
     concepts: Map<string, AST.ConceptDeclaration>,
     entities: Map<string, AST.EntityDeclaration>,
-    rules: AST.RuleDeclaration[]
+    rules: AST.RuleDeclaration[],
+    bindings: Map<string, AST.Term> = new Map()
   ): string {
     let output = '# Frisco Knowledge Base\n';
     output += `# Generated on ${new Date().toISOString()}\n\n`;
 
+    if (bindings.size > 0) {
+      output += '# Assignments\n';
+      for (const [name, value] of bindings) {
+        if (value.type === 'StringLiteral') {
+          output += `${name} = ${this.quote(value.value)}.\n`;
+        }
+      }
+      output += '\n';
+    }
+
     if (concepts.size > 0) {
       output += '# concepts\n';
       for (const concept of concepts.values()) {
@@ -128,4 +226,18 @@ export class Serializer {
 
     return output;
   }
+
+  // A string literal the lexer reads back as `value`
+  static quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+  }
+
+  private static propertyValue(value: string | string[]): string {
+    return Array.isArray(value) ? `[${value.join(', ')}]` : value;
+  }
+
+  // Essentials are written as bare words where the lexer reads them as one
+  private static essentialToSource(essential: string): string {
+    return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(essential) && !KEYWORDS.has(essential) ? essential : this.quote(essential);
+  }
 }
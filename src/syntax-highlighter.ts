@@ -1,33 +1,43 @@
 // Syntax Highlighter for Frisco Code
 
 import chalk from 'chalk';
+import { HighlightKind, HighlightToken, classifySource } from './highlighting.js';
+
+const COLORS: Record<HighlightKind, (text: string) => string> = {
+  keyword: chalk.blue.bold,
+  operator: chalk.magenta.bold,
+  string: chalk.green,
+  number: chalk.yellow,
+  comment: chalk.gray,
+  variable: (text) => text,
+  predicate: chalk.bold,
+  builtin: chalk.yellow.bold,
+  concept: chalk.cyan.bold,
+  entity: chalk.cyan,
+  atom: chalk.cyan,
+  property: chalk.blue,
+};
 
 export class SyntaxHighlighter {
   static highlight(code: string): string {
-    // Keywords
-    code = code.replace(
-      /\b(Concept|Entity|description|attributes|essentials)\b/g,
-      chalk.blue.bold('$1')
-    );
-
-    // Operators
-    code = code.replace(/=~=/g, chalk.magenta.bold('=~='));
-    code = code.replace(/:-/g, chalk.yellow(':-'));
-    code = code.replace(/\?/g, chalk.cyan.bold('?'));
-
-    // String literals
-    code = code.replace(/"([^"]*)"/g, chalk.green('"$1"'));
-
-    // Constants (UPPERCASE)
-    code = code.replace(/\b([A-Z][A-Z0-9_]*)\b/g, chalk.cyan('$1'));
-
-    // Built-in predicates
-    code = code.replace(/\b(print|println|readln|is_unbound|is_bound|is_atom|is_list|findall|setof|similar_attr|not)\b/g, chalk.yellow.bold('$1'));
-
-    // Comments
-    code = code.replace(/(#.*$)/gm, chalk.gray('$1'));
+    const lines = code.split('\n');
+    const tokensByLine = new Map<number, HighlightToken[]>();
+    for (const token of classifySource(code)) {
+      tokensByLine.set(token.line, [...(tokensByLine.get(token.line) ?? []), token]);
+    }
 
-    return code;
+    return lines
+      .map((text, i) => {
+        let output = '';
+        let column = 1;
+        for (const token of tokensByLine.get(i + 1) ?? []) {
+          output += text.slice(column - 1, token.column - 1);
+          output += COLORS[token.kind](text.slice(token.column - 1, token.column - 1 + token.length));
+          column = token.column + token.length;
+        }
+        return output + text.slice(column - 1);
+      })
+      .join('\n');
   }
 
   static highlightOutput(output: string, isTrue: boolean): string {
@@ -0,0 +1,104 @@
+// Prolog-style four-port tracer. Every traced goal reports a Call port when it
+// starts, Exit for each solution, Redo when asked for another one and Fail when
+// it has no more. Spy points switch tracing on when a predicate is called.
+
+import { FriscoRuntimeError } from './errors.js';
+
+export type TracePort = 'call' | 'exit' | 'redo' | 'fail';
+
+// creep: stop at the next port; skip: run the current goal without showing its
+// subgoals; leap: run on until a spy point; abort: stop the query
+export type TraceAction = 'creep' | 'skip' | 'leap' | 'abort';
+
+export type TraceEvent = {
+  port: TracePort;
+  depth: number;
+  goal: string;
+  spied: boolean;
+};
+
+// Shows an event and decides how to continue
+export type TraceHandler = (event: TraceEvent) => Promise<TraceAction>;
+
+export class Tracer {
+  private mode: 'off' | 'creep' | 'leap' = 'off';
+  private skipDepth: number | null = null;
+  private readonly spyPoints = new Set<string>();
+  private handler: TraceHandler;
+
+  constructor(handler: TraceHandler) {
+    this.handler = handler;
+  }
+
+  setHandler(handler: TraceHandler): void {
+    this.handler = handler;
+  }
+
+  trace(): void {
+    this.mode = 'creep';
+    this.skipDepth = null;
+  }
+
+  notrace(): void {
+    this.mode = 'off';
+    this.skipDepth = null;
+  }
+
+  isTracing(): boolean {
+    return this.mode !== 'off';
+  }
+
+  // Whether goals need to report their ports at all
+  isActive(): boolean {
+    return this.mode !== 'off' || this.spyPoints.size > 0;
+  }
+
+  // Without an arity, every predicate of that name is spied
+  spy(name: string, arity?: number): void {
+    this.spyPoints.add(arity === undefined ? name : `${name}/${arity}`);
+  }
+
+  nospy(name: string, arity?: number): boolean {
+    return this.spyPoints.delete(arity === undefined ? name : `${name}/${arity}`);
+  }
+
+  getSpyPoints(): string[] {
+    return Array.from(this.spyPoints);
+  }
+
+  // `predicate` is given for predicate calls, which are the goals spy points apply to
+  async port(port: TracePort, depth: number, goal: string, predicate?: { name: string; arity: number }): Promise<void> {
+    const spied = predicate !== undefined && (this.spyPoints.has(predicate.name) || this.spyPoints.has(`${predicate.name}/${predicate.arity}`));
+
+    if (this.skipDepth !== null) {
+      if (depth > this.skipDepth) return;
+      // Back at the skipped goal's own Exit or Fail
+      this.skipDepth = null;
+    }
+    if (this.mode !== 'creep') {
+      if (!spied) return;
+      this.mode = 'creep';
+    }
+
+    const action = await this.handler({ port, depth, goal, spied });
+    switch (action) {
+      case 'creep':
+        break;
+      case 'skip':
+        if (port === 'call' || port === 'redo') this.skipDepth = depth;
+        break;
+      case 'leap':
+        this.mode = 'leap';
+        break;
+      case 'abort':
+        this.skipDepth = null;
+        throw new FriscoRuntimeError('Execution aborted');
+    }
+  }
+}
+
+// "   Call: (2) man(x)", with a * marking spy points
+export function formatTraceEvent(event: TraceEvent): string {
+  const port = event.port[0].toUpperCase() + event.port.slice(1);
+  return `${event.spied ? '*' : ' '}${port.padStart(5)}: (${event.depth}) ${event.goal}`;
+}
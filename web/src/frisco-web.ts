@@ -1,12 +1,14 @@
 // Frisco Web REPL - Browser Entry Point
-import { Lexer } from '../../src/lexer';
-import { Parser } from '../../src/parser';
-import { ExecutorWeb } from './executor-web';
-import { SemanticMatcherWeb } from './semantic-matcher-web';
+import { parseSource } from '../../src/parser';
+import { Executor } from '../../src/executor';
+import { createBrowserExecutor } from '../../src/browser-host';
+import { HumanBackend, OpenAICompatibleBackend } from '../../src/judge-backend';
+import { parsePredicateIndicator } from '../../src/knowledge-base';
+import { formatDiagnostic } from '../../src/errors';
+import { isReplCommand } from '../../src/repl-input';
 
 // Global state
-let executor: ExecutorWeb | null = null;
-let matcher: SemanticMatcherWeb | null = null;
+let executor: Executor | null = null;
 let isReady = false;
 
 // DOM elements
@@ -14,9 +16,6 @@ const outputEl = document.getElementById('output') as HTMLDivElement;
 const inputEl = document.getElementById('input') as HTMLInputElement;
 const runBtn = document.getElementById('run') as HTMLButtonElement;
 const statusEl = document.getElementById('status') as HTMLDivElement;
-const progressEl = document.getElementById('model-progress') as HTMLDivElement;
-const progressTextEl = document.getElementById('progress-text') as HTMLSpanElement;
-const progressFillEl = document.getElementById('progress-fill') as HTMLDivElement;
 
 // Split source into statements by '.', respecting strings
 function splitStatements(source: string): string[] {
@@ -61,41 +60,16 @@ function clearOutput() {
   outputEl.innerHTML = '';
 }
 
-async function initializeMatcher() {
-  matcher = new SemanticMatcherWeb(0.7);
-  progressEl.classList.add('visible');
-
-  await matcher.initialize((progress) => {
-    if (progress.status === 'progress' && progress.progress !== undefined) {
-      const percent = Math.round(progress.progress);
-      progressFillEl.style.width = `${percent}%`;
-       progressTextEl.textContent = `Downloading BGE-M3 model... ${percent}%`;
-     } else if (progress.status === 'done') {
-       progressTextEl.textContent = 'BGE-M3 model loaded!';
-    } else if (progress.status === 'ready') {
-      progressEl.classList.remove('visible');
-    }
-  });
-
-  progressEl.classList.remove('visible');
-}
-
-async function initialize() {
+function initialize() {
   try {
-     appendOutput('Initializing BGE-M3 embedding model (first load may take a moment)...', 'info');
-    await initializeMatcher();
-
-    executor = new ExecutorWeb(
-      0.7,
-      matcher!,
-      (msg) => appendOutput(msg, 'result'),
-      async (prompt) => {
-        return new Promise((resolve) => {
-          const result = window.prompt(prompt || 'Enter input:');
-          resolve(result || '');
-        });
-      }
-    );
+    const ask = async (prompt?: string) => window.prompt(prompt || 'Enter input:') || '';
+    // ?judge=human: the user answers the semantic questions in the prompt dialog;
+    // ?endpoint=URL: the OpenAI-compatible server to judge with; ?threshold=0.85
+    const params = new URLSearchParams(window.location.search);
+    const judge = params.get('judge') === 'human' ? new HumanBackend(ask) : new OpenAICompatibleBackend(params.get('endpoint') ?? undefined);
+    executor = createBrowserExecutor((msg) => appendOutput(msg, 'result'), ask, judge);
+    const threshold = params.get('threshold');
+    if (threshold !== null) executor.setThreshold(Number(threshold));
 
     isReady = true;
     statusEl.textContent = 'Ready';
@@ -116,6 +90,12 @@ async function runCode(source: string) {
     return;
   }
 
+  if (isReplCommand(source)) {
+    appendOutput(source, 'input');
+    runCommand(source.trim());
+    return;
+  }
+
   // Auto-convert bare expressions to queries
   // Split by '.' and process each statement
   let processedSource = source.trim();
@@ -149,17 +129,44 @@ async function runCode(source: string) {
   appendOutput(source, 'input');
 
    try {
-     const lexer = new Lexer(processedSource);
-     const tokens = lexer.tokenize();
-     const parser = new Parser(tokens);
-     const ast = parser.parse();
-     await executor.execute(ast);
+     const { program: ast, errors } = parseSource(processedSource);
+     if (errors.length > 0) {
+       errors.forEach(error => appendOutput(formatDiagnostic(error), 'error'));
+       return;
+     }
+     await executor.consult(ast);
   } catch (error) {
-    if (error instanceof Error) {
-      appendOutput(`Error: ${error.message}`, 'error');
-    } else {
-      appendOutput(`Error: ${error}`, 'error');
+    appendOutput(formatDiagnostic(error), 'error');
+  }
+}
+
+// REPL commands, mirroring the terminal REPL
+function runCommand(cmd: string) {
+  const [name, ...args] = cmd.slice(1).split(/\s+/);
+
+  switch (name.toLowerCase()) {
+    case 'reset':
+      executor!.reset();
+      appendOutput('Knowledge base cleared', 'info');
+      break;
+
+    case 'abolish': {
+      const indicator = args.length > 0 ? parsePredicateIndicator(args[0]) : null;
+      if (!indicator) {
+        appendOutput('Usage: :abolish name or :abolish name/arity', 'error');
+        break;
+      }
+      const removed = executor!.abolish(indicator.name, indicator.arity);
+      appendOutput(`Removed ${removed} clause${removed === 1 ? '' : 's'} of ${args[0]}`, 'info');
+      break;
     }
+
+    case 'clear':
+      clearOutput();
+      break;
+
+    default:
+      appendOutput(`Unknown command: ${cmd}`, 'error');
   }
 }
 